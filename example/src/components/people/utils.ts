@@ -59,18 +59,17 @@ export function useController() {
     async (id: string) => {
       const name = faker.person.firstName();
 
-      const process = state.produce((draft) => {
-        const index = Person.index(draft, id);
-        if (index !== -1) draft.people[index].name = state.annotate(Op.Update, name);
-      });
-
-      await wait();
-
-      state.produce((draft) => {
-        const index = Person.index(draft, id);
-        if (index !== -1) draft.people[index].name = name;
-      });
-      state.prune(process);
+      await state.transact(
+        (draft) => {
+          const index = Person.index(draft, id);
+          if (index !== -1) draft.people[index].name = state.annotate(Op.Update, name);
+        },
+        wait,
+        (draft) => {
+          const index = Person.index(draft, id);
+          if (index !== -1) draft.people[index].name = name;
+        },
+      );
     },
     [state],
   );
@@ -82,18 +81,17 @@ export function useController() {
   const handleDelete = useCallback(
     async (id: string) => {
       const name = state.model.people.find((person) => person.id === id)?.name;
-      const process = state.produce((draft) => {
-        const index = Person.index(draft, id);
-        if (index !== -1) draft.people[index] = state.annotate(Op.Remove, draft.people[index]);
-      });
-
-      await wait();
-
-      state.produce((draft) => {
-        const index = Person.index(draft, id);
-        if (index !== -1) draft.people.splice(index, 1);
-      });
-      state.prune(process);
+      await state.transact(
+        (draft) => {
+          const index = Person.index(draft, id);
+          if (index !== -1) draft.people[index] = state.annotate(Op.Remove, draft.people[index]);
+        },
+        wait,
+        (draft) => {
+          const index = Person.index(draft, id);
+          if (index !== -1) draft.people.splice(index, 1);
+        },
+      );
       notification.success({
         message: 'Deleted',
         description: `${name} deleted successfully`,
@@ -109,13 +107,7 @@ export function useController() {
   const handleCreate = useCallback(async () => {
     const newPerson = Person.create();
 
-    const process = state.produce((draft) => {
-      draft.people.push(state.annotate(Op.Add, newPerson));
-    });
-
-    await wait();
-
-    state.prune(process);
+    await state.transact((draft) => void draft.people.push(state.annotate(Op.Add, newPerson)), wait);
     notification.success({
       message: 'Created',
       description: `${newPerson.name} created successfully`,
@@ -130,28 +122,33 @@ export function useController() {
     const updated = direction === Direction.Asc ? Direction.Desc : Direction.Asc;
     setDirection(updated);
 
-    const process = state.produce((draft) => {
-      draft.people = state.annotate(Op.Sort, draft.people);
-    });
-
-    await wait();
-
-    state.produce((draft) => {
-      draft.people.sort((a, b) => {
-        return updated === Direction.Asc ? a.name.localeCompare(b.name) : b.name.localeCompare(a.name);
-      });
-    });
-    state.prune(process);
+    await state.transact(
+      (draft) => void (draft.people = state.annotate(Op.Sort, draft.people)),
+      wait,
+      (draft) => {
+        draft.people.sort((a, b) => {
+          return updated === Direction.Asc ? a.name.localeCompare(b.name) : b.name.localeCompare(a.name);
+        });
+      },
+    );
   }, [state, direction]);
 
-  const statistics: Statistics = useMemo(() => {
-    const sorting = state.inspect.people.is(Op.Sort);
-    const creating = state.model.people.filter((_, i) => state.inspect.people[i].is(Op.Add)).length;
-    const updating = state.model.people.filter((_, i) => state.inspect.people[i].name.pending()).length;
-    const deleting = state.model.people.filter((_, i) => state.inspect.people[i].is(Op.Remove)).length;
-    const total = state.model.people.length - creating - deleting;
-    return { sorting, creating, updating, deleting, total };
-  }, [state.model.people, state.inspect.people]);
+  const rows = (operation: Op) =>
+    new Set(
+      state
+        .query(operation)
+        .filter(({ path }) => path[0] === 'people' && path.length > 1)
+        .map(({ path }) => path[1]),
+    ).size;
+  const creating = rows(Op.Add);
+  const deleting = rows(Op.Remove);
+  const statistics: Statistics = {
+    sorting: state.stats().Sort > 0,
+    creating,
+    updating: rows(Op.Update),
+    deleting,
+    total: state.model.people.length - creating - deleting,
+  };
 
   return useMemo(
     () => ({ state, direction, statistics, handleUpdate, handleDelete, handleCreate, handleSort }),
@@ -0,0 +1,40 @@
+import { Op, State } from '.';
+import { bench, describe } from 'vitest';
+
+type Model = { people: { id: string; name: string }[] };
+
+/**
+ * Creates a state holding the given number of rows, with a pending update on the last row.
+ * @param {number} rows - Number of people in the model
+ * @returns {State<Model>} The hydrated state
+ */
+function create(rows: number): State<Model> {
+  const state = new State<Model>();
+  state.hydrate({
+    people: Array.from({ length: rows }, (_, index) => ({ id: String(index), name: `Person ${index}` })),
+  });
+  state.produce((draft) => void (draft.people[rows - 1].name = state.annotate(Op.Update, 'Pending')));
+  return state;
+}
+
+/**
+ * Benchmarks for inspect lookups with the default identity function, which should cost the same
+ * regardless of how many rows the model holds since proxies are cached per path, IDs are cached
+ * per object and the registry is indexed by id and property.
+ */
+[100, 10_000, 50_000].forEach((rows) => {
+  describe(`${rows} rows`, () => {
+    const state = create(rows);
+    const id = (<{ κ: string }>(<unknown>state.model.people[rows - 1])).κ;
+
+    bench('pending() on a property', () => void state.inspect.people[rows - 1].name.pending());
+
+    bench('pending() on the list', () => void state.inspect.people.pending());
+
+    bench('is() on a row', () => void state.inspect.people[rows - 1].is(Op.Update));
+
+    bench('draft() on a property', () => void state.inspect.people[rows - 1].name.draft());
+
+    bench('byId() on an entity', () => void state.inspect.byId<Model['people'][number]>(id).inspect.name.pending());
+  });
+});
@@ -1,7 +1,7 @@
 import { faker } from '@faker-js/faker';
-import { Op, State } from '.';
+import { define, names, Op, Resolution, Rollback, State, Visibility } from '.';
 import type { Inspect } from './types';
-import { describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 /**
  * Tests for the State class which manages model mutations with annotations.
@@ -307,65 +307,1981 @@ describe('State', () => {
     });
   });
 
+  /**
+   * Tests for the revert() method which undoes a process's changes.
+   */
+  describe('revert()', () => {
+    /**
+     * Verifies that items added with Op.Add are removed from the model.
+     */
+    it('removes added items', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const process = state.produce((draft) => {
+        draft.locations.push(state.annotate(Op.Add, { name: faker.location.city() }));
+      });
+      expect(state.model.locations.length).toBe(4);
+      expect(state.inspect.locations[3].pending()).toBe(true);
+
+      state.revert(process);
+      expect(state.model.locations.length).toBe(3);
+      expect(state.model.locations.map(({ name }) => name)).toEqual(model.locations.map(({ name }) => name));
+      expect(state.inspect.locations.pending()).toBe(false);
+    });
+
+    /**
+     * Verifies that items removed by the process are brought back along with its annotations cleared.
+     */
+    it('brings back removed items', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const process = state.produce((draft) => {
+        draft.locations.splice(1, 1);
+        draft.name.first = state.annotate(Op.Update, 'Pending');
+      });
+      expect(state.model.locations.length).toBe(2);
+
+      state.revert(process);
+      expect(state.model.locations.length).toBe(3);
+      expect(state.model.locations[1].name).toBe(model.locations[1].name);
+      expect(state.inspect.name.first.pending()).toBe(false);
+      expect(state.model.name.first).toBe(model.name.first);
+    });
+
+    /**
+     * Verifies that reverting one process leaves the changes and annotations of others intact.
+     */
+    it('leaves other processes untouched', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const city = faker.location.city();
+
+      const first = state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: city })));
+      const second = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+
+      state.revert(second);
+      expect(state.model.locations[3].name).toBe(city);
+      expect(state.inspect.locations[3].pending()).toBe(true);
+      expect(state.inspect.name.first.pending()).toBe(false);
+
+      state.prune(first);
+      expect(state.model.locations[3].name).toBe(city);
+    });
+
+    /**
+     * Verifies that an added item is removed even after a later change moved it to another index.
+     */
+    it('removes added items after a later splice', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const city = faker.location.city();
+
+      const process = state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: city })));
+      state.produce((draft) => void draft.locations.splice(0, 1));
+
+      state.revert(process);
+      expect(state.model.locations.map(({ name }) => name)).toEqual(model.locations.slice(1).map(({ name }) => name));
+      expect(state.inspect.locations.pending()).toBe(false);
+      expect(state.processes()).toHaveLength(0);
+    });
+
+    /**
+     * Verifies that an update is undone on the same item after a later change moved it.
+     */
+    it('restores updated values after a later splice', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const process = state.produce((draft) => {
+        draft.locations[2].name = 'Renamed';
+        draft.locations[1].name = state.annotate(Op.Update, 'Pending');
+      });
+      state.produce((draft) => void draft.locations.splice(0, 1));
+      expect(state.model.locations[1].name).toBe('Renamed');
+
+      state.revert(process);
+      expect(state.model.locations.map(({ name }) => name)).toEqual(model.locations.slice(1).map(({ name }) => name));
+      expect(state.inspect.locations[0].name.pending()).toBe(false);
+      expect(state.processes()).toHaveLength(0);
+    });
+
+    /**
+     * Verifies that values changed again since the process are left as they are.
+     */
+    it('keeps values changed again after the process', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const process = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      state.produce((draft) => void (draft.age = 199));
+
+      state.revert(process);
+      expect(state.model.name.first).toBe(model.name.first);
+      expect(state.model.age).toBe(199);
+    });
+
+    /**
+     * Verifies that reverting a hydrating process removes its annotations but keeps the hydrated data.
+     */
+    it('only removes the annotations of a hydrating process', () => {
+      const state = new State<Model>();
+      const process = state.hydrate({
+        ...model,
+        name: { ...model.name, first: state.annotate(Op.Update, 'Hydrated') },
+      });
+      state.produce((draft) => void (draft.age = 199));
+
+      state.revert(process);
+      expect(state.model.name.first).toBe('Hydrated');
+      expect(state.model.age).toBe(199);
+      expect(state.inspect.name.first.pending()).toBe(false);
+    });
+
+    /**
+     * Verifies that a failed transaction removes the optimistically added item.
+     */
+    it('is applied when a transaction fails', async () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const result = state.transact(
+        (draft) => void draft.locations.push(state.annotate(Op.Add, { name: faker.location.city() })),
+        async () => {
+          throw new Error('Request failed');
+        },
+      );
+      expect(state.model.locations.length).toBe(4);
+
+      await expect(result).rejects.toThrow('Request failed');
+      expect(state.model.locations.length).toBe(3);
+      expect(state.inspect.locations.pending()).toBe(false);
+    });
+  });
+
+  /**
+   * Tests for the processes() method which lists live processes with their labels and metadata.
+   */
+  describe('processes()', () => {
+    /**
+     * Verifies that annotated processes are listed with their label, metadata, count and paths.
+     */
+    it('lists live processes with their details', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const meta = { request: faker.string.uuid(), started: Date.now() };
+
+      const process = state.produce(
+        (draft) => {
+          draft.name.first = state.annotate(Op.Update, 'Pending');
+          draft.locations[1] = state.annotate(Op.Remove, draft.locations[1]);
+        },
+        { label: 'rename', meta },
+      );
+
+      const [summary] = state.processes();
+      expect(state.processes()).toHaveLength(1);
+      expect(summary.process).toBe(process);
+      expect(summary.label).toBe('rename');
+      expect(summary.meta).toEqual(meta);
+      expect(summary.annotations).toBe(2);
+      expect(summary.paths).toEqual(
+        expect.arrayContaining([
+          ['name', 'first'],
+          ['locations', 1],
+        ]),
+      );
+    });
+
+    /**
+     * Verifies that processes without annotations are not tracked.
+     */
+    it('ignores processes without annotations', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      state.produce((draft) => void (draft.age = 1), { label: 'commit' });
+      expect(state.processes()).toEqual([]);
+    });
+
+    /**
+     * Verifies that pruned and reverted processes are no longer listed.
+     */
+    it('stops listing pruned and reverted processes', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const first = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      const second = state.produce((draft) => void (draft.age = state.annotate(Op.Update, 1)), { label: 'age' });
+      expect(state.processes().map(({ process }) => process)).toEqual([first, second]);
+
+      state.prune(first);
+      expect(state.processes().map(({ label }) => label)).toEqual(['age']);
+
+      state.revert(second);
+      expect(state.processes()).toEqual([]);
+    });
+
+    /**
+     * Verifies that hydrate() and batch() accept a label and metadata too.
+     */
+    it('labels hydrated and batched processes', () => {
+      const state = new State<Model>();
+      state.hydrate({ ...model, age: state.annotate(Op.Fetch, model.age) }, { label: 'hydrate' });
+
+      state.batch(
+        () => {
+          state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')), {
+            label: 'ignored',
+          });
+        },
+        { label: 'batch', meta: { user: 'Imogen' } },
+      );
+
+      expect(state.processes().map(({ label, meta }) => [label, meta])).toEqual([
+        ['hydrate', {}],
+        ['batch', { user: 'Imogen' }],
+      ]);
+    });
+  });
+
+  /**
+   * Tests for process expiry via the ttl setting and option.
+   */
+  describe('ttl', () => {
+    beforeEach(() => void vi.useFakeTimers());
+    afterEach(() => void vi.useRealTimers());
+
+    /**
+     * Verifies that an expired process is pruned by default and the timeout event fires.
+     */
+    it('prunes expired processes and emits timeout', () => {
+      const state = new State<Model>({ ttl: 1_000 });
+      state.hydrate(model);
+      const listener = vi.fn();
+      state.on('timeout', listener);
+
+      const process = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')), {
+        label: 'rename',
+      });
+
+      vi.advanceTimersByTime(999);
+      expect(state.inspect.name.first.pending()).toBe(true);
+      expect(listener).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(state.inspect.name.first.pending()).toBe(false);
+      expect(listener).toHaveBeenCalledWith({ process, label: 'rename', meta: {}, rollback: Rollback.Prune });
+    });
+
+    /**
+     * Verifies that the revert policy undoes the expired process's changes.
+     */
+    it('reverts expired processes when configured', () => {
+      const state = new State<Model>({ ttl: 1_000, rollback: Rollback.Revert });
+      state.hydrate(model);
+
+      state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: faker.location.city() })));
+      expect(state.model.locations.length).toBe(4);
+
+      vi.advanceTimersByTime(1_000);
+      expect(state.model.locations.length).toBe(3);
+      expect(state.inspect.locations.pending()).toBe(false);
+    });
+
+    /**
+     * Verifies that an expired process is still discarded and reported when reverting it throws.
+     */
+    it('prunes expired processes whose revert throws', () => {
+      const state = new State<Model>({ ttl: 1_000, rollback: Rollback.Revert });
+      state.hydrate(model);
+      const listener = vi.fn();
+      state.on('timeout', listener);
+      vi.spyOn(state, 'revert').mockImplementation(() => {
+        throw new Error('Revert failed');
+      });
+
+      const process = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+
+      expect(() => vi.advanceTimersByTime(1_000)).not.toThrow();
+      expect(state.inspect.name.first.pending()).toBe(false);
+      expect(state.processes()).toEqual([]);
+      expect(listener).toHaveBeenCalledWith({ process, label: null, meta: {}, rollback: Rollback.Revert });
+    });
+
+    /**
+     * Verifies that an expired hydrating process only loses its annotations under the revert policy.
+     */
+    it('keeps hydrated data when an expired hydrating process is reverted', () => {
+      const state = new State<Model>({ ttl: 100, rollback: Rollback.Revert });
+      state.hydrate({ ...model, name: { ...model.name, first: state.annotate(Op.Update, 'Hydrated') } });
+      state.produce((draft) => void (draft.age = 199));
+
+      vi.advanceTimersByTime(100);
+      expect(state.model.name.first).toBe('Hydrated');
+      expect(state.model.age).toBe(199);
+      expect(state.inspect.name.first.pending()).toBe(false);
+    });
+
+    /**
+     * Verifies that the per-process options override the state's settings.
+     */
+    it('allows per-process ttl and rollback', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: faker.location.city() })), {
+        ttl: 500,
+        rollback: Rollback.Revert,
+      });
+      const process = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+
+      vi.advanceTimersByTime(500);
+      expect(state.model.locations.length).toBe(3);
+      expect(state.inspect.name.first.pending()).toBe(true);
+
+      vi.advanceTimersByTime(60_000);
+      expect(state.processes().map(({ process }) => process)).toEqual([process]);
+    });
+
+    /**
+     * Verifies that settled processes no longer expire.
+     */
+    it('cancels expiry once a process is pruned', () => {
+      const state = new State<Model>({ ttl: 1_000 });
+      state.hydrate(model);
+      const listener = vi.fn();
+      const unsubscribe = state.on('timeout', listener);
+
+      const process = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      state.prune(process);
+      state.produce((draft) => void (draft.age = state.annotate(Op.Update, 1)));
+      unsubscribe();
+
+      vi.advanceTimersByTime(1_000);
+      expect(listener).not.toHaveBeenCalled();
+      expect(state.inspect.age.pending()).toBe(false);
+    });
+  });
+
+  /**
+   * Tests for cancelling processes and waits with an AbortSignal.
+   */
+  describe('signal', () => {
+    /**
+     * Verifies that aborting the signal prunes the process by default.
+     */
+    it('prunes the process when aborted', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const controller = new AbortController();
+
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')), {
+        signal: controller.signal,
+      });
+      expect(state.inspect.name.first.pending()).toBe(true);
+
+      controller.abort();
+      expect(state.inspect.name.first.pending()).toBe(false);
+      expect(state.processes()).toEqual([]);
+    });
+
+    /**
+     * Verifies that aborting the signal reverts the process under the revert policy.
+     */
+    it('reverts the process when aborted under Rollback.Revert', () => {
+      const state = new State<Model>({ rollback: Rollback.Revert });
+      state.hydrate(model);
+      const controller = new AbortController();
+
+      state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: faker.location.city() })), {
+        signal: controller.signal,
+      });
+      expect(state.model.locations.length).toBe(4);
+
+      controller.abort();
+      expect(state.model.locations.length).toBe(3);
+    });
+
+    /**
+     * Verifies that an aborted process is still discarded when reverting it throws.
+     */
+    it('prunes the process when reverting it throws', () => {
+      const state = new State<Model>({ rollback: Rollback.Revert });
+      state.hydrate(model);
+      const controller = new AbortController();
+      vi.spyOn(state, 'revert').mockImplementation(() => {
+        throw new Error('Revert failed');
+      });
+
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')), {
+        signal: controller.signal,
+      });
+
+      expect(() => controller.abort()).not.toThrow();
+      expect(state.inspect.name.first.pending()).toBe(false);
+      expect(state.processes()).toEqual([]);
+    });
+
+    /**
+     * Verifies that aborting after the process has been pruned has no effect.
+     */
+    it('ignores aborts once the process has settled', () => {
+      const state = new State<Model>({ rollback: Rollback.Revert });
+      state.hydrate(model);
+      const controller = new AbortController();
+      const city = faker.location.city();
+
+      const process = state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: city })), {
+        signal: controller.signal,
+      });
+      state.prune(process);
+
+      controller.abort();
+      expect(state.model.locations[3].name).toBe(city);
+    });
+
+    /**
+     * Verifies that an already aborted signal throws an AbortError without applying the recipe.
+     */
+    it('throws when the signal is already aborted', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const recipe = vi.fn();
+
+      expect(() => state.produce(recipe, { signal: AbortSignal.abort() })).toThrow(
+        expect.objectContaining({ name: 'AbortError' }),
+      );
+      expect(recipe).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that settled() rejects with an AbortError and stops waiting when aborted.
+     */
+    it('rejects settled() when aborted', async () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const controller = new AbortController();
+
+      const process = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      const settled = state.inspect.name.first.settled({ signal: controller.signal });
+
+      controller.abort();
+      await expect(settled).rejects.toMatchObject({ name: 'AbortError' });
+
+      state.prune(process);
+      await expect(state.inspect.name.first.settled({ signal: AbortSignal.abort() })).rejects.toMatchObject({
+        name: 'AbortError',
+      });
+    });
+  });
+
+  /**
+   * Tests for detecting plain writes that overlap another process's pending annotations.
+   */
+  describe('conflicts', () => {
+    /**
+     * Verifies that the default policy applies the write, keeps the annotation and emits an event.
+     */
+    it('emits a conflict event and applies the write by default', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const listener = vi.fn();
+      state.on('conflict', listener);
+
+      const local = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Draft')));
+      const remote = state.produce((draft) => void (draft.name.first = 'Server'));
+
+      expect(state.model.name.first).toBe('Server');
+      expect(state.inspect.name.first.pending()).toBe(true);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({
+        path: ['name', 'first'],
+        resolution: Resolution.Notify,
+        local: { value: 'Draft', process: local },
+        remote: { value: 'Server', process: remote },
+      });
+    });
+
+    /**
+     * Verifies that Resolution.Local keeps the local draft by discarding the incoming value.
+     */
+    it('keeps the local draft under Resolution.Local', () => {
+      const state = new State<Model>({ conflict: Resolution.Local });
+      state.hydrate(model);
+
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Draft')));
+      state.produce((draft) => {
+        draft.name.first = 'Server';
+        draft.name.last = 'Server';
+      });
+
+      expect(state.model.name.first).toBe(model.name.first);
+      expect(state.model.name.last).toBe('Server');
+      expect(state.inspect.name.first.draft()).toBe('Draft');
+    });
+
+    /**
+     * Verifies that committing the pending value with a plain write before pruning is not a conflict.
+     */
+    it('commits the pending value under Resolution.Local', () => {
+      const state = new State<Model>({ conflict: Resolution.Local });
+      state.hydrate(model);
+
+      const process = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Committed')));
+      state.produce((draft) => void (draft.name.first = 'Committed'));
+      state.prune(process);
+
+      expect(state.model.name.first).toBe('Committed');
+      expect(state.inspect.name.first.pending()).toBe(false);
+    });
+
+    /**
+     * Verifies that committing the pending value emits no conflict event.
+     */
+    it('emits no conflict when the pending value is committed', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const listener = vi.fn();
+      state.on('conflict', listener);
+
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Committed')));
+      state.produce((draft) => void (draft.name.first = 'Committed'));
+
+      expect(state.model.name.first).toBe('Committed');
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that Resolution.Remote applies the incoming value and removes the overlapping annotations.
+     */
+    it('keeps the incoming value under Resolution.Remote', () => {
+      const state = new State<Model>({ conflict: Resolution.Remote });
+      state.hydrate(model);
+
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Draft')));
+      const process = state.produce((draft) => void (draft.age = state.annotate(Op.Update, 1)));
+      state.produce((draft) => void (draft.name.first = 'Server'));
+
+      expect(state.model.name.first).toBe('Server');
+      expect(state.inspect.name.first.pending()).toBe(false);
+      expect(state.processes().map(({ process }) => process)).toEqual([process]);
+    });
+
+    /**
+     * Verifies that annotated writes, structural array changes and transaction commits never conflict.
+     */
+    it('ignores writes that are not overlapping plain writes', async () => {
+      const state = new State<Model>({ conflict: Resolution.Local });
+      state.hydrate(model);
+      const listener = vi.fn();
+      state.on('conflict', listener);
+
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'First')));
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Second')));
+      state.produce((draft) => void (draft.locations[1] = state.annotate(Op.Remove, draft.locations[1])));
+      state.produce((draft) => void draft.locations.splice(0, 1));
+
+      await state.transact(
+        (draft) => void (draft.age = state.annotate(Op.Update, 1)),
+        async () => 1,
+        (draft, age) => void (draft.age = age),
+      );
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(state.model.locations.length).toBe(2);
+      expect(state.model.age).toBe(1);
+    });
+  });
+
+  /**
+   * Tests for rebasing live processes over a new base model from hydrate().
+   */
+  describe('rebase', () => {
+    /**
+     * Verifies that pending changes are replayed on top of the new base model.
+     */
+    it('replays live processes over the new base', () => {
+      const state = new State<Model>({ rebase: true });
+      state.hydrate(model);
+      const city = faker.location.city();
+
+      const process = state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: city })));
+      state.hydrate({ ...model, age: 1 });
+
+      expect(state.model.age).toBe(1);
+      expect(state.model.locations.map(({ name }) => name)).toEqual([...model.locations.map(({ name }) => name), city]);
+      expect(state.inspect.locations[3].is(Op.Add)).toBe(true);
+      expect(state.base.age).toBe(1);
+      expect(state.base.locations.length).toBe(3);
+
+      state.revert(process);
+      expect(state.model.age).toBe(1);
+      expect(state.model.locations.length).toBe(3);
+    });
+
+    /**
+     * Verifies that a property-level update keeps the new base's value and stays pending.
+     */
+    it('keeps the new base value under pending updates', () => {
+      const state = new State<Model>({ rebase: true });
+      state.hydrate(model);
+
+      const process = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      state.hydrate({ ...model, name: { ...model.name, first: 'Server' } });
+
+      expect(state.model.name.first).toBe('Server');
+      expect(state.inspect.name.first.pending()).toBe(true);
+      expect(state.inspect.name.first.draft()).toBe('Pending');
+      expect(state.draft.name.first).toBe('Pending');
+
+      state.revert(process);
+      expect(state.model.name.first).toBe('Server');
+      expect(state.inspect.name.first.pending()).toBe(false);
+    });
+
+    /**
+     * Verifies that merging keeps both the server value and the annotation of a pending update.
+     */
+    it('keeps the merged value under pending updates', () => {
+      const state = new State<Model>({ rebase: true });
+      state.hydrate(model);
+
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      state.merge({ ...model, name: { ...model.name, first: 'Server' } });
+
+      expect(state.model.name.first).toBe('Server');
+      expect(state.inspect.name.first.remaining()).toBe(1);
+      expect(state.inspect.name.first.draft()).toBe('Pending');
+    });
+
+    /**
+     * Verifies that a pushed item is replayed at the end of a list that has grown since.
+     */
+    it('replays appended items at the end of a longer list', () => {
+      const state = new State<Model>({ rebase: true });
+      state.hydrate(model);
+      const locations = [...model.locations, { name: 'Fetched' }, { name: 'Refetched' }];
+
+      state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: 'Added' })));
+      state.hydrate({ ...model, locations });
+
+      expect(state.model.locations.map(({ name }) => name)).toEqual([...locations.map(({ name }) => name), 'Added']);
+      expect(state.inspect.locations[5].is(Op.Add)).toBe(true);
+    });
+
+    /**
+     * Verifies that a pushed item can still be reverted after merge() shrank the list.
+     */
+    it('reverts appended items after merge() shrinks the list', () => {
+      const state = new State<Model>({ rebase: true });
+      state.hydrate(model);
+      const locations = model.locations.slice(0, 2);
+
+      const process = state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: 'Added' })));
+      state.merge({ ...model, locations });
+      expect(state.model.locations.map(({ name }) => name)).toEqual([...locations.map(({ name }) => name), 'Added']);
+
+      state.revert(process);
+      expect(state.model.locations.map(({ name }) => name)).toEqual(locations.map(({ name }) => name));
+      expect(state.inspect.locations.pending()).toBe(false);
+    });
+
+    /**
+     * Verifies that a process whose changes no longer apply is failed, discarded and reported.
+     */
+    it('drops processes whose changes no longer apply', async () => {
+      const state = new State<Model>({ rebase: true });
+      state.hydrate(model);
+      const listener = vi.fn();
+      state.on('dropped', listener);
+
+      const process = state.produce(
+        (draft) => {
+          draft.locations[2].name = 'Renamed';
+          draft.name.first = state.annotate(Op.Update, 'Pending');
+        },
+        { label: 'rename' },
+      );
+      const settled = state.settled(process, { reject: true });
+      state.hydrate({ ...model, locations: model.locations.slice(0, 1) });
+
+      expect(state.model.locations.map(({ name }) => name)).toEqual([model.locations[0].name]);
+      expect(state.inspect.name.first.pending()).toBe(false);
+      expect(state.processes()).toEqual([]);
+      expect(listener).toHaveBeenCalledWith({ process, label: 'rename', meta: {}, reason: expect.any(Error) });
+      await expect(settled).rejects.toThrow();
+    });
+
+    /**
+     * Verifies that processes are replayed in creation order and settled ones are left out.
+     */
+    it('replays in order and skips settled processes', () => {
+      const state = new State<Model>({ rebase: true });
+      state.hydrate(model);
+
+      const first = state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: 'First' })));
+      state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: 'Second' })));
+      state.produce((draft) => void draft.locations.push({ name: 'Committed' }));
+      state.prune(first);
+
+      state.hydrate({ ...model, locations: [] });
+      expect(state.model.locations.map(({ name }) => name)).toEqual(['Second']);
+    });
+
+    /**
+     * Verifies that subscribers are notified once per rebase.
+     */
+    it('notifies once', () => {
+      const state = new State<Model>({ rebase: true });
+      state.hydrate(model);
+      state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: 'Pending' })));
+      const callback = vi.fn();
+      state.observe(callback);
+
+      state.hydrate(model);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Verifies that hydrate() replaces the whole model when rebasing is disabled.
+     */
+    it('is disabled by default', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: 'Pending' })));
+      state.hydrate(model);
+      expect(state.model.locations.length).toBe(3);
+    });
+  });
+
+  /**
+   * Tests for the merge() method which keeps entity tags when refetched data is hydrated.
+   */
+  describe('merge()', () => {
+    type People = { people: { id: string; name: string }[] };
+
+    const people = {
+      people: Array.from({ length: 3 }, () => ({ id: faker.string.uuid(), name: faker.person.firstName() })),
+    } satisfies People;
+
+    /**
+     * Verifies that annotations stay attached to entities matched by key, even when they move.
+     */
+    it('keeps annotations attached to entities matched by key', () => {
+      const state = new State<People>();
+      state.hydrate(people);
+
+      state.produce((draft) => void (draft.people[0].name = state.annotate(Op.Update, 'Pending')));
+      state.produce((draft) => void (draft.people[2] = state.annotate(Op.Remove, draft.people[2])));
+
+      const [first, second, third] = people.people;
+      state.merge({ people: [third, { ...first, name: 'Server' }, second] }, { key: 'id' });
+
+      expect(state.model.people.map(({ id }) => id)).toEqual([third.id, first.id, second.id]);
+      expect(state.model.people[1].name).toBe('Server');
+      expect(state.inspect.people[1].name.pending()).toBe(true);
+      expect(state.inspect.people[1].name.draft()).toBe('Pending');
+      expect(state.inspect.people[0].is(Op.Remove)).toBe(true);
+      expect(state.inspect.people[2].pending()).toBe(false);
+    });
+
+    /**
+     * Verifies that unchanged entities are matched with the identity function when no key is given.
+     */
+    it('matches unchanged entities with the identity function', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      state.produce((draft) => void (draft.locations[1] = state.annotate(Op.Remove, draft.locations[1])));
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+
+      state.merge({ ...model, age: 1, locations: [...model.locations].reverse() });
+
+      expect(state.model.age).toBe(1);
+      expect(state.inspect.locations[1].is(Op.Remove)).toBe(true);
+      expect(state.inspect.locations[0].pending()).toBe(false);
+      expect(state.inspect.name.first.pending()).toBe(true);
+    });
+
+    /**
+     * Verifies that hydrate() by contrast orphans the annotations of refetched entities.
+     */
+    it('differs from hydrate() which assigns new tags', () => {
+      const state = new State<People>();
+      state.hydrate(people);
+
+      state.produce((draft) => void (draft.people[0].name = state.annotate(Op.Update, 'Pending')));
+      state.hydrate(people);
+
+      expect(state.inspect.people[0].name.pending()).toBe(false);
+    });
+
+    /**
+     * Verifies that new entities get fresh tags and annotations in the incoming data are registered.
+     */
+    it('tags new entities and registers incoming annotations', () => {
+      const state = new State<People>();
+      state.hydrate(people);
+      const person = { id: faker.string.uuid(), name: faker.person.firstName() };
+
+      const process = state.merge({ people: [...people.people, state.annotate(Op.Add, person)] }, { key: 'id' });
+
+      expect(state.model.people[3]).toMatchObject(person);
+      expect(state.inspect.people[3].is(Op.Add)).toBe(true);
+      expect(new Set(state.model.people.map((person) => (<{ κ?: string }>person).κ)).size).toBe(4);
+
+      state.prune(process);
+      expect(state.inspect.people[3].pending()).toBe(false);
+    });
+  });
+
+  /**
+   * Tests for the batch() method which groups mutations into one process and one notification.
+   */
+  describe('batch()', () => {
+    /**
+     * Verifies that every produce() inside a batch shares the batch's process.
+     */
+    it('shares one process across produce() calls', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const [process, first, second] = state.batch((process) => [
+        process,
+        state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending'))),
+        state.produce((draft) => void (draft.age = state.annotate(Op.Update, 1))),
+      ]);
+
+      expect(first).toBe(process);
+      expect(second).toBe(process);
+
+      state.prune(process);
+      expect(state.inspect.name.first.pending()).toBe(false);
+      expect(state.inspect.age.pending()).toBe(false);
+    });
+
+    /**
+     * Verifies that subscribers are notified once when the batch ends.
+     */
+    it('notifies once at the end', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const callback = vi.fn();
+      state.observe(callback);
+
+      state.batch(() => {
+        state.produce((draft) => void (draft.age = 1));
+        state.produce((draft) => void (draft.age = 2));
+        expect(callback).not.toHaveBeenCalled();
+      });
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(state.model);
+    });
+
+    /**
+     * Verifies that nested batches join the outer batch's process and notification.
+     */
+    it('supports nesting', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const callback = vi.fn();
+      state.observe(callback);
+
+      const [outer, inner] = state.batch((outer) => {
+        state.produce((draft) => void (draft.age = 1));
+        const inner = state.batch((inner) => {
+          state.produce((draft) => void (draft.age = 2));
+          return inner;
+        });
+        expect(callback).not.toHaveBeenCalled();
+        return [outer, inner];
+      });
+
+      expect(inner).toBe(outer);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Verifies that revert() undoes every mutation made inside the batch.
+     */
+    it('reverts the whole batch as one unit', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const process = state.batch(() => {
+        state.produce((draft) => void draft.locations.splice(0, 1));
+        return state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: 'Horsham' })));
+      });
+      expect(state.model.locations.map(({ name }) => name)).toEqual([
+        ...model.locations.slice(1).map(({ name }) => name),
+        'Horsham',
+      ]);
+
+      state.revert(process);
+      expect(state.model.locations.map(({ name }) => name)).toEqual(model.locations.map(({ name }) => name));
+      expect(state.inspect.locations.pending()).toBe(false);
+    });
+
+    /**
+     * Verifies that the batch is recorded as a single history entry.
+     */
+    it('records a single history entry', () => {
+      const state = new State<Model>({ history: 10 });
+      state.hydrate(model);
+
+      state.batch(() => {
+        state.produce((draft) => void (draft.age = 1));
+        state.produce((draft) => void (draft.name.first = 'Imogen'));
+      });
+
+      state.undo();
+      expect(state.model.age).toBe(model.age);
+      expect(state.model.name.first).toBe(model.name.first);
+      expect(state.canUndo()).toBe(false);
+    });
+
+    /**
+     * Verifies that the options of a produce() inside a batch are added to the batch's process.
+     */
+    it('joins the options of calls inside the batch', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const controller = new AbortController();
+
+      const process = state.batch(
+        (process) => {
+          state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')), {
+            label: 'rename',
+            meta: { user: 'imogen' },
+            signal: controller.signal,
+          });
+          return process;
+        },
+        { meta: { request: 1 } },
+      );
+      expect(state.processes()).toMatchObject([{ process, label: 'rename', meta: { request: 1, user: 'imogen' } }]);
+
+      controller.abort();
+      expect(state.inspect.name.first.pending()).toBe(false);
+      expect(state.processes()).toEqual([]);
+      expect(() => state.batch(() => state.produce((draft) => void (draft.age = 1), { ttl: 1_000 }))).toThrow(
+        'ttl and rollback can only be set on the outermost batch()',
+      );
+    });
+  });
+
+  /**
+   * Tests for string and tuple path access through at(), get() and set().
+   */
+  describe('paths', () => {
+    /**
+     * Verifies that at() navigates the inspect proxy with dotted and tuple paths.
+     */
+    it('inspects values at a path', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      state.produce((draft) => void (draft.locations[1].name = state.annotate(Op.Update, 'Pending')));
+
+      expect(state.inspect.at('locations.1.name').pending()).toBe(true);
+      expect(state.inspect.at(['locations', 1, 'name']).draft()).toBe('Pending');
+      expect(state.inspect.at(['locations', 0]).pending()).toBe(false);
+      expect(state.inspect.locations.at('1.name').is(Op.Update)).toBe(true);
+    });
+
+    /**
+     * Verifies that get() reads and set() writes values at a path, annotating when asked.
+     */
+    it('gets and sets values at a path', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      expect(state.get('name.first')).toBe(model.name.first);
+      expect(state.get(['locations', 2, 'name'])).toBe(model.locations[2].name);
+
+      state.set('locations.2.name', 'Updated');
+      expect(state.model.locations[2].name).toBe('Updated');
+      expect(state.inspect.locations[2].name.pending()).toBe(false);
+
+      const process = state.set(['name', 'first'], 'Pending', Op.Update);
+      expect(state.get('name.first')).toBe(model.name.first);
+      expect(state.inspect.at('name.first').draft()).toBe('Pending');
+      state.prune(process);
+      expect(state.inspect.name.first.pending()).toBe(false);
+    });
+  });
+
+  /**
+   * Tests for progress reporting on long-running processes.
+   */
+  describe('progress()', () => {
+    /**
+     * Verifies that reported progress is exposed at the annotated path and clamped to a fraction.
+     */
+    it('reports progress through inspect', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const process = state.produce(
+        (draft) => void draft.locations.push(state.annotate(Op.Import, { name: 'Import' })),
+      );
+      expect(state.inspect.locations[3].progress()).toBeNull();
+
+      state.progress(process, 0.25);
+      expect(state.inspect.locations[3].progress()).toBe(0.25);
+      state.progress(process, { loaded: 30, total: 40 });
+      expect(state.inspect.locations[3].progress()).toBe(0.75);
+      state.progress(process, 2);
+      expect(state.inspect.locations[3].progress()).toBe(1);
+      expect(state.inspect.locations[0].progress()).toBeNull();
+
+      state.prune(process);
+      state.progress(process, 0.5);
+      expect(state.inspect.locations[3].progress()).toBeNull();
+    });
+
+    /**
+     * Verifies that progress changes reach both global and path-scoped observers.
+     */
+    it('notifies observers of progress changes', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const callback = vi.fn();
+      const observer = vi.fn();
+
+      const process = state.produce((draft) => void (draft.name = state.annotate(Op.Export, draft.name)));
+      state.observe(callback);
+      state.inspect.name.observe(observer);
+
+      state.progress(process, 0.5);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(observer).toHaveBeenCalledTimes(1);
+
+      state.progress(process, 0.5);
+      expect(observer).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  /**
+   * Tests for the caching of inspect proxies.
+   */
+  describe('inspect caching', () => {
+    /**
+     * Verifies that the same path always yields the same proxy while still reading fresh values.
+     */
+    it('reuses the proxy for a path', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const proxy = state.inspect.locations[1].name;
+      expect(state.inspect.locations[1].name).toBe(proxy);
+      expect(state.inspect.at('locations.1.name')).toBe(proxy);
+      expect(state.inspect.locations.at([1, 'name'])).toBe(proxy);
+
+      state.produce((draft) => void (draft.locations[1].name = state.annotate(Op.Update, 'Pending')));
+      expect(proxy.pending()).toBe(true);
+      expect(proxy.draft()).toBe('Pending');
+    });
+
+    /**
+     * Verifies that inspect lookups identify each object once rather than on every call.
+     */
+    it('identifies each object once', () => {
+      const identity = vi.fn((snapshot: object) => JSON.stringify(snapshot));
+      const state = new State<Model>(identity);
+      state.hydrate(model);
+      state.inspect.locations.pending();
+      const calls = identity.mock.calls.length;
+
+      Array.from({ length: 5 }, () => state.inspect.locations.pending());
+      expect(identity).toHaveBeenCalledTimes(calls);
+    });
+
+    /**
+     * Verifies that cached proxies and entities are evicted once their path or identity is gone.
+     */
+    it('evicts proxies and entities that are no longer part of the model', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const id = (<{ κ: string }>(<unknown>state.model.locations[2])).κ;
+
+      const proxy = state.inspect.locations[2];
+      const entity = state.inspect.byId(id);
+      state.produce((draft) => void (draft.age = 199));
+      expect(state.inspect.locations[2]).toBe(proxy);
+      expect(state.inspect.byId(id)).toBe(entity);
+
+      state.produce((draft) => void draft.locations.pop());
+      expect(state.inspect.locations[2]).not.toBe(proxy);
+      expect(state.inspect.byId(id)).not.toBe(entity);
+      expect(entity.path).toBeNull();
+    });
+  });
+
+  /**
+   * Tests for finding entities by their identity through the inspect proxy's byId().
+   */
+  describe('byId()', () => {
+    type People = { people: { id: string; name: string }[] };
+
+    /**
+     * Verifies that byId() follows an entity as it moves and reports null once it is gone.
+     */
+    it('follows an entity wherever it sits', () => {
+      const state = new State<People>((snapshot) => {
+        if ('id' in snapshot) return snapshot.id;
+        if (Array.isArray(snapshot)) return snapshot.map((item) => item.id).join(',');
+        return 'root';
+      });
+      state.hydrate({
+        people: [
+          { id: 'a', name: 'Adam' },
+          { id: 'b', name: 'Imogen' },
+        ],
+      });
+
+      const entity = state.inspect.byId<People['people'][number]>('b');
+      expect(entity.path).toEqual(['people', 1]);
+
+      state.produce((draft) => void (draft.people[1].name = state.annotate(Op.Update, 'Phoebe')));
+      state.produce((draft) => void draft.people.reverse());
+      expect(entity.path).toEqual(['people', 0]);
+      expect(entity.inspect.name.pending()).toBe(true);
+      expect(entity.inspect.name.draft()).toBe('Phoebe');
+
+      state.produce((draft) => void draft.people.shift());
+      expect(entity.path).toBeNull();
+      expect(entity.inspect.name.pending()).toBe(false);
+      expect(entity.inspect.name.box().value).toBeUndefined();
+    });
+  });
+
+  /**
+   * Tests for the registry-wide query() and stats() methods.
+   */
+  describe('query() and stats()', () => {
+    /**
+     * Verifies that query() lists matching annotations with their path, values and process.
+     */
+    it('lists matching annotations', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const update = state.produce((draft) => void (draft.locations[1].name = state.annotate(Op.Update, 'Pending')));
+      const remove = state.produce(
+        (draft) => void (draft.locations[2] = state.annotate(Op.Remove, draft.locations[2])),
+      );
+      state.produce((draft) => void (draft.age = state.annotate(Op.Archive, 150)));
+
+      const hits = state.query(Op.Update | Op.Remove);
+      expect(hits).toHaveLength(2);
+      expect(hits).toContainEqual(
+        expect.objectContaining({
+          path: ['locations', 1, 'name'],
+          current: model.locations[1].name,
+          value: 'Pending',
+          process: update,
+          operation: Op.Update,
+        }),
+      );
+      expect(hits).toContainEqual(
+        expect.objectContaining({ path: ['locations', 2], current: state.model.locations[2], process: remove }),
+      );
+      expect(state.query(Op.Add)).toEqual([]);
+    });
+
+    /**
+     * Verifies that stats() counts annotations per operation, counting combined flags for each.
+     */
+    it('counts annotations per operation', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      state.produce((draft) => {
+        draft.locations[0] = state.annotate(Op.Remove, draft.locations[0]);
+        draft.locations[1] = state.annotate(Op.Remove, draft.locations[1]);
+        draft.name.first = state.annotate(Op.Update | Op.Lock, 'Pending');
+      });
+
+      const stats = state.stats();
+      expect(stats.Remove).toBe(2);
+      expect(stats.Update).toBe(1);
+      expect(stats.Lock).toBe(1);
+      expect(stats.Add).toBe(0);
+      expect(Object.keys(stats)).toHaveLength(22);
+    });
+
+    /**
+     * Verifies that stats() leaves out annotations whose value is no longer part of the model, like query().
+     */
+    it('counts only annotations that query() finds', () => {
+      const state = new State<Model>({ history: 10 });
+      state.hydrate(model);
+
+      state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: faker.location.city() })));
+      expect(state.stats().Add).toBe(1);
+
+      state.undo();
+      expect(state.query(Op.Add)).toEqual([]);
+      expect(state.stats().Add).toBe(0);
+    });
+  });
+
+  /**
+   * Tests for the opt-in undo/redo history built on inverse patches.
+   */
+  describe('history', () => {
+    /**
+     * Verifies that history is disabled unless a capacity is configured.
+     */
+    it('is disabled by default', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      state.produce((draft) => void (draft.age = 199));
+      expect(state.canUndo()).toBe(false);
+
+      state.undo();
+      expect(state.model.age).toBe(199);
+    });
+
+    /**
+     * Verifies that undo() and redo() step backwards and forwards through produced changes.
+     */
+    it('undoes and redoes changes', () => {
+      const state = new State<Model>({ history: 10 });
+      state.hydrate(model);
+      expect(state.canUndo()).toBe(false);
+
+      state.produce((draft) => void (draft.age = 101));
+      state.produce((draft) => void (draft.name.first = 'Imogen'));
+      expect(state.canUndo()).toBe(true);
+      expect(state.canRedo()).toBe(false);
+
+      state.undo();
+      expect(state.model.name.first).toBe(model.name.first);
+      expect(state.model.age).toBe(101);
+
+      state.undo();
+      expect(state.model.age).toBe(model.age);
+      expect(state.canUndo()).toBe(false);
+      expect(state.canRedo()).toBe(true);
+
+      state.redo();
+      state.redo();
+      expect(state.model.age).toBe(101);
+      expect(state.model.name.first).toBe('Imogen');
+      expect(state.canRedo()).toBe(false);
+    });
+
+    /**
+     * Verifies that producing a new change clears the redo stack.
+     */
+    it('clears redo entries on a new change', () => {
+      const state = new State<Model>({ history: 10 });
+      state.hydrate(model);
+
+      state.produce((draft) => void (draft.age = 101));
+      state.undo();
+      expect(state.canRedo()).toBe(true);
+
+      state.produce((draft) => void (draft.age = 102));
+      expect(state.canRedo()).toBe(false);
+    });
+
+    /**
+     * Verifies that only the configured number of entries is kept.
+     */
+    it('respects the capacity limit', () => {
+      const state = new State<Model>({ history: 2 });
+      state.hydrate(model);
+
+      [101, 102, 103].forEach((age) => state.produce((draft) => void (draft.age = age)));
+
+      state.undo();
+      state.undo();
+      expect(state.canUndo()).toBe(false);
+      expect(state.model.age).toBe(101);
+    });
+
+    /**
+     * Verifies that redo() keeps object tags stable so annotations resolve again.
+     */
+    it('keeps annotations resolving after redo', () => {
+      const state = new State<Model>({ history: 10 });
+      state.hydrate(model);
+      const city = faker.location.city();
+
+      state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: city })));
+      expect(state.inspect.locations[3].pending()).toBe(true);
+
+      state.undo();
+      expect(state.model.locations.length).toBe(3);
+      expect(state.inspect.locations[3].pending()).toBe(false);
+
+      state.redo();
+      expect(state.model.locations[3].name).toBe(city);
+      expect(state.inspect.locations[3].pending()).toBe(true);
+      expect(state.inspect.locations[3].is(Op.Add)).toBe(true);
+    });
+
+    /**
+     * Verifies that reverting a process drops its history entries.
+     */
+    it('drops entries of reverted processes', () => {
+      const state = new State<Model>({ history: 10 });
+      state.hydrate(model);
+
+      const process = state.produce((draft) => {
+        draft.locations.push(state.annotate(Op.Add, { name: faker.location.city() }));
+      });
+      state.revert(process);
+
+      expect(state.canUndo()).toBe(false);
+      expect(state.model.locations.length).toBe(3);
+    });
+
+    /**
+     * Verifies that hydrate() starts a fresh history.
+     */
+    it('is cleared by hydrate()', () => {
+      const state = new State<Model>({ history: 10 });
+      state.hydrate(model);
+
+      state.produce((draft) => void (draft.age = 101));
+      state.hydrate(model);
+
+      expect(state.canUndo()).toBe(false);
+    });
+
+    /**
+     * Verifies that later entries can still be undone and redone after an earlier process is reverted.
+     */
+    it('keeps later entries valid when an earlier process is reverted', () => {
+      const state = new State<Model>({ history: 10 });
+      state.hydrate(model);
+
+      const process = state.produce((draft) => void draft.locations.push(state.annotate(Op.Add, { name: 'Added' })));
+      state.produce((draft) => void (draft.locations[1].name = 'Renamed'));
+      state.revert(process);
+
+      expect(() => state.undo()).not.toThrow();
+      expect(state.model.locations.map(({ name }) => name)).toEqual(model.locations.map(({ name }) => name));
+
+      state.redo();
+      expect(state.model.locations.length).toBe(3);
+      expect(state.model.locations[1].name).toBe('Renamed');
+    });
+
+    /**
+     * Verifies that a write skipped under Resolution.Local is not undone.
+     */
+    it('only undoes the writes that were applied', () => {
+      const state = new State<Model>({ history: 10, conflict: Resolution.Local });
+      state.hydrate(model);
+
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Draft')));
+      state.produce((draft) => {
+        draft.name.first = 'Server';
+        draft.age = 199;
+      });
+
+      state.undo();
+      expect(state.model.age).toBe(model.age);
+      expect(state.model.name.first).toBe(model.name.first);
+
+      state.redo();
+      expect(state.model.age).toBe(199);
+      expect(state.model.name.first).toBe(model.name.first);
+      expect(state.inspect.name.first.draft()).toBe('Draft');
+    });
+
+    /**
+     * Verifies that a custom identity function can still be passed directly.
+     */
+    it('accepts an identity function or a settings object', () => {
+      [
+        (identity: () => string) => new State<Model>(identity),
+        (identity: () => string) => new State<Model>({ identity, history: 5 }),
+      ].forEach((create) => {
+        const identity = vi.fn(() => 'id');
+        const state = create(identity);
+        state.hydrate(model);
+
+        state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+        expect(identity).toHaveBeenCalled();
+        expect(state.inspect.name.first.pending()).toBe(true);
+      });
+    });
+  });
+
   /**
    * Tests for the settled() method which resolves when annotations are cleared.
    */
-  describe('settled()', () => {
+  describe('settled()', () => {
+    /**
+     * Verifies that settled() resolves with the model value once annotations are pruned.
+     */
+    it('resolves when there are no more annotations', async () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const value = faker.person.firstName();
+
+      const process = state.produce((draft) => {
+        draft.name.first = state.annotate(Op.Update, value);
+      });
+
+      const name = state.inspect.name.first.settled();
+      expect(state.inspect.name.first.pending()).toBe(true);
+      expect(state.model.name.first).toBe(model.name.first);
+
+      state.produce((draft) => void (draft.name.first = value));
+      state.prune(process);
+
+      expect(await name).toBe(value);
+    });
+
+    /**
+     * Verifies that settled() resolves immediately if no annotations exist.
+     */
+    it('resolves immediately when no annotations', async () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      expect(await state.inspect.name.first.settled()).toBe(model.name.first);
+    });
+
+    /**
+     * Verifies that settled() waits for all annotations to be pruned.
+     */
+    it('waits for all annotations to be pruned', async () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const value = faker.person.firstName();
+
+      const process1 = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, value)));
+      const process2 = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, value)));
+
+      const name = state.inspect.name.first.settled();
+      expect(state.inspect.name.first.pending()).toBe(true);
+      expect(state.inspect.name.first.remaining()).toBe(2);
+
+      state.prune(process1);
+      expect(state.inspect.name.first.pending()).toBe(true);
+      expect(state.inspect.name.first.remaining()).toBe(1);
+
+      state.produce((draft) => void (draft.name.first = value));
+      state.prune(process2);
+
+      expect(state.inspect.name.first.remaining()).toBe(0);
+      expect(await name).toBe(value);
+    });
+
+    /**
+     * Verifies that settled() can wait for a single operation or a single process only.
+     */
+    it('waits for matching annotations only', async () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const removed = vi.fn();
+      const owned = vi.fn();
+
+      const update = state.produce((draft) => {
+        draft.locations[0] = state.annotate(Op.Update, { ...draft.locations[0], name: 'Pending' });
+      });
+      const remove = state.produce(
+        (draft) => void (draft.locations[0] = state.annotate(Op.Remove, draft.locations[0])),
+      );
+      const settled = {
+        removed: state.inspect.locations[0].settled({ operation: Op.Remove }).then(removed),
+        owned: state.inspect.locations[0].settled({ process: update }).then(owned),
+      };
+
+      state.prune(remove);
+      await settled.removed;
+      expect(removed).toHaveBeenCalledTimes(1);
+      expect(owned).not.toHaveBeenCalled();
+      expect(state.inspect.locations[0].pending()).toBe(true);
+
+      state.prune(update);
+      await settled.owned;
+      expect(owned).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Verifies that settled() rejects with a TimeoutError once its timeout elapses.
+     */
+    it('rejects when the timeout elapses', async () => {
+      vi.useFakeTimers();
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      const settled = state.inspect.name.first.settled({ timeout: 1_000 });
+      const idle = state.idle({ timeout: 2_000 });
+
+      vi.advanceTimersByTime(1_000);
+      await expect(settled).rejects.toMatchObject({ name: 'TimeoutError' });
+      vi.advanceTimersByTime(1_000);
+      await expect(idle).rejects.toMatchObject({ name: 'TimeoutError' });
+      vi.useRealTimers();
+    });
+
+    /**
+     * Verifies that settled() rejects when a process it waits for fails and resolves otherwise.
+     */
+    it('rejects when a process fails', async () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const controller = new AbortController();
+
+      const reverted = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      state.produce((draft) => void (draft.age = state.annotate(Op.Update, 1)), { signal: controller.signal });
+      const settled = {
+        name: state.inspect.name.first.settled({ reject: true }),
+        age: state.inspect.age.settled({ reject: true }),
+        lenient: state.inspect.name.first.settled(),
+        process: state.settled(reverted, { reject: true }),
+      };
+
+      state.revert(reverted);
+      await expect(settled.name).rejects.toThrow('Process has been reverted');
+      await expect(settled.process).rejects.toThrow('Process has been reverted');
+      expect(await settled.lenient).toBe(model.name.first);
+
+      controller.abort();
+      await expect(settled.age).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  /**
+   * Tests for the transact() method which manages optimistic transactions.
+   */
+  describe('transact()', () => {
     /**
-     * Verifies that settled() resolves with the model value once annotations are pruned.
+     * Verifies that the commit recipe receives the effect's result and the optimistic process is pruned.
      */
-    it('resolves when there are no more annotations', async () => {
+    it('commits the result and prunes on success', async () => {
       const state = new State<Model>();
       state.hydrate(model);
-      const value = faker.person.firstName();
+      const name = faker.person.firstName();
 
-      const process = state.produce((draft) => {
-        draft.name.first = state.annotate(Op.Update, value);
-      });
+      const result = state.transact(
+        (draft) => void (draft.name.first = state.annotate(Op.Update, name)),
+        async () => name,
+        (draft, name) => void (draft.name.first = name),
+      );
 
-      const name = state.inspect.name.first.settled();
       expect(state.inspect.name.first.pending()).toBe(true);
       expect(state.model.name.first).toBe(model.name.first);
 
-      state.produce((draft) => void (draft.name.first = value));
+      expect(await result).toBe(name);
+      expect(state.inspect.name.first.pending()).toBe(false);
+      expect(state.model.name.first).toBe(name);
+    });
+
+    /**
+     * Verifies that the optimistic process is reverted and the error rethrown when the effect fails.
+     */
+    it('reverts and rethrows on failure', async () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const commit = vi.fn();
+
+      const result = state.transact(
+        (draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')),
+        async () => {
+          throw new Error('Request failed');
+        },
+        commit,
+      );
+
+      await expect(result).rejects.toThrow('Request failed');
+      expect(commit).not.toHaveBeenCalled();
+      expect(state.inspect.name.first.pending()).toBe(false);
+      expect(state.model.name.first).toBe(model.name.first);
+    });
+
+    /**
+     * Verifies that optimistic changes without annotations are rolled back on failure as well.
+     */
+    it('reverts unannotated changes on failure', async () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const result = state.transact(
+        (draft) => void (draft.name.first = 'Optimistic'),
+        async () => {
+          throw new Error('Request failed');
+        },
+      );
+
+      expect(state.model.name.first).toBe('Optimistic');
+      await expect(result).rejects.toThrow('Request failed');
+      expect(state.model.name.first).toBe(model.name.first);
+      expect(state.processes()).toEqual([]);
+    });
+
+    /**
+     * Verifies that the effect's error is rethrown and nothing is left pending when rolling back is hampered.
+     */
+    it('rethrows the effect error after later structural changes', async () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const result = state.transact(
+        (draft) => void (draft.locations[2].name = state.annotate(Op.Update, 'Pending')),
+        async () => {
+          throw new Error('Request failed');
+        },
+      );
+      state.produce((draft) => void draft.locations.splice(0, 1));
+
+      await expect(result).rejects.toThrow('Request failed');
+      expect(state.inspect.pending({ deep: true })).toBe(false);
+      expect(state.model.locations.map(({ name }) => name)).toEqual(model.locations.slice(1).map(({ name }) => name));
+    });
+
+    /**
+     * Verifies that the effect receives the optimistic process.
+     */
+    it('passes the optimistic process to the effect', async () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const process = await state.transact(
+        (draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')),
+        async (process) => process,
+      );
+
+      expect(typeof process).toBe('symbol');
+      expect(state.inspect.name.first.pending()).toBe(false);
+    });
+  });
+
+  /**
+   * Tests for the process-level settled() and store-level idle() methods.
+   */
+  describe('settled() and idle()', () => {
+    /**
+     * Verifies that settled(process) resolves once every annotation of the process is gone.
+     */
+    it('resolves when a process has settled', async () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const resolved = vi.fn();
+
+      const process = state.produce((draft) => {
+        draft.name.first = state.annotate(Op.Update, 'Pending');
+        draft.locations[0] = state.annotate(Op.Remove, draft.locations[0]);
+      });
+      const other = state.produce((draft) => void (draft.age = state.annotate(Op.Update, 1)));
+      const settled = state.settled(process).then(resolved);
+
+      state.prune(other);
+      await Promise.resolve();
+      expect(resolved).not.toHaveBeenCalled();
+
       state.prune(process);
+      await settled;
+      expect(resolved).toHaveBeenCalledWith(state.model);
+    });
 
-      expect(await name).toBe(value);
+    /**
+     * Verifies that idle() resolves only once the whole registry is empty.
+     */
+    it('resolves when the registry is empty', async () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      expect(await state.idle()).toBe(state.model);
+
+      const first = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      const second = state.produce((draft) => void (draft.age = state.annotate(Op.Update, 1)));
+      const resolved = vi.fn();
+      const idle = state.idle().then(resolved);
+
+      state.prune(first);
+      await Promise.resolve();
+      expect(resolved).not.toHaveBeenCalled();
+
+      state.revert(second);
+      await idle;
+      expect(resolved).toHaveBeenCalledTimes(1);
     });
 
     /**
-     * Verifies that settled() resolves immediately if no annotations exist.
+     * Verifies that both waits reject with an AbortError when their signal aborts.
      */
-    it('resolves immediately when no annotations', async () => {
+    it('rejects when aborted', async () => {
       const state = new State<Model>();
       state.hydrate(model);
-      expect(await state.inspect.name.first.settled()).toBe(model.name.first);
+      const controller = new AbortController();
+
+      const process = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      const settled = state.settled(process, { signal: controller.signal });
+      const idle = state.idle({ signal: controller.signal });
+
+      controller.abort();
+      await expect(settled).rejects.toMatchObject({ name: 'AbortError' });
+      await expect(idle).rejects.toMatchObject({ name: 'AbortError' });
     });
+  });
 
+  /**
+   * Tests for the reset() and dispose() lifecycle methods.
+   */
+  describe('reset() and dispose()', () => {
     /**
-     * Verifies that settled() waits for all annotations to be pruned.
+     * Verifies that reset() returns to the un-hydrated state and rejects outstanding waits.
      */
-    it('waits for all annotations to be pruned', async () => {
+    it('resets to the un-hydrated state', async () => {
+      const state = new State<Model>({ history: 10 });
+      state.hydrate(model);
+      const callback = vi.fn();
+      state.observe(callback);
+
+      const process = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      const settled = state.inspect.name.first.settled();
+      const idle = state.idle();
+
+      state.reset();
+      await expect(settled).rejects.toThrow('State has been reset');
+      await expect(idle).rejects.toThrow('State has been reset');
+      expect(state.model).toEqual({});
+      expect(state.processes()).toEqual([]);
+      expect(state.canUndo()).toBe(false);
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(() => state.produce((draft) => void (draft.age = 1))).toThrow(
+        'State must be hydrated using hydrate() before calling produce()',
+      );
+
+      state.hydrate(model);
+      expect(state.model.name.first).toBe(model.name.first);
+      expect(await state.settled(process)).toBe(state.model);
+    });
+
+    /**
+     * Verifies that dispose() rejects outstanding waits, drops subscribers and blocks mutations.
+     */
+    it('tears the state down', async () => {
+      vi.useFakeTimers();
+      const state = new State<Model>({ ttl: 1_000 });
+      state.hydrate(model);
+      const callback = vi.fn();
+      const listener = vi.fn();
+      state.observe(callback);
+      state.on('timeout', listener);
+
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      const settled = state.inspect.name.first.settled();
+
+      state.dispose();
+      await expect(settled).rejects.toThrow('State has been disposed');
+      await expect(state.idle()).rejects.toThrow('State has been disposed');
+      expect(() => state.hydrate(model)).toThrow('State has been disposed and can no longer be used');
+      expect(() => state.produce((draft) => void (draft.age = 1))).toThrow(
+        'State has been disposed and can no longer be used',
+      );
+
+      vi.advanceTimersByTime(1_000);
+      expect(listener).not.toHaveBeenCalled();
+      expect(callback).toHaveBeenCalledTimes(1);
+      vi.useRealTimers();
+    });
+
+    /**
+     * Verifies that a transaction in flight rejects instead of committing into a reset or disposed state.
+     */
+    it('rejects transactions in flight', async () => {
       const state = new State<Model>();
       state.hydrate(model);
-      const value = faker.person.firstName();
+      const commit = vi.fn();
 
-      const process1 = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, value)));
-      const process2 = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, value)));
+      const reset = state.transact(
+        (draft) => void (draft.age = 199),
+        async () => 'done',
+        commit,
+      );
+      state.reset();
+      await expect(reset).rejects.toThrow('State has been reset');
+      expect(state.model).toEqual({});
 
-      const name = state.inspect.name.first.settled();
-      expect(state.inspect.name.first.pending()).toBe(true);
-      expect(state.inspect.name.first.remaining()).toBe(2);
+      state.hydrate(model);
+      const disposed = state.transact(
+        (draft) => void (draft.age = 199),
+        async () => 'done',
+        commit,
+      );
+      state.dispose();
+      await expect(disposed).rejects.toThrow('State has been disposed');
+      expect(state.model).toEqual({});
+      expect(commit).not.toHaveBeenCalled();
+    });
+  });
 
-      state.prune(process1);
-      expect(state.inspect.name.first.pending()).toBe(true);
-      expect(state.inspect.name.first.remaining()).toBe(1);
+  /**
+   * Tests for matching the pending operations at a path against a bitmask.
+   */
+  describe('operation masks', () => {
+    /**
+     * Verifies that isAll(), isOnly() and operations() consider every pending flag at the path.
+     */
+    it('matches combined flags', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
 
-      state.produce((draft) => void (draft.name.first = value));
-      state.prune(process2);
+      expect(state.inspect.name.operations()).toBe(0);
+      expect(state.inspect.name.isOnly(Op.Update)).toBe(false);
 
-      expect(state.inspect.name.first.remaining()).toBe(0);
-      expect(await name).toBe(value);
+      state.produce((draft) => void (draft.name = state.annotate(Op.Update, { ...draft.name })));
+      expect(state.inspect.name.isOnly(Op.Update)).toBe(true);
+      expect(state.inspect.name.isAll(Op.Update | Op.Lock)).toBe(false);
+
+      state.produce((draft) => void (draft.name = state.annotate(Op.Lock, draft.name)));
+      expect(state.inspect.name.operations()).toBe(Op.Update | Op.Lock);
+      expect(state.inspect.name.isAll(Op.Update | Op.Lock)).toBe(true);
+      expect(state.inspect.name.isOnly(Op.Update)).toBe(false);
+      expect(state.inspect.name.isOnly(Op.Update | Op.Lock | Op.Sync)).toBe(true);
+      expect(state.inspect.operations({ deep: true })).toBe(Op.Update | Op.Lock);
+    });
+
+    /**
+     * Verifies that names() lists the flags in a mask.
+     */
+    it('names the flags in a mask', () => {
+      expect(names(Op.Update | Op.Lock)).toEqual(['Update', 'Lock']);
+      expect(names(Op.Remove)).toEqual(['Remove']);
+    });
+
+    /**
+     * Verifies that user-defined operations get their own bit and work like the built-in ones.
+     */
+    it('supports user-defined operations', () => {
+      const { Approve, Escalate } = define('Approve', 'Escalate');
+      expect(define('Approve').Approve).toBe(Approve);
+      expect(Approve & Op.Transfer).toBe(0);
+      expect(Approve & Escalate).toBe(0);
+      expect(() => define('Update')).toThrow('Update is a built-in operation');
+
+      const state = new State<Model>();
+      state.hydrate(model);
+      state.produce((draft) => void (draft.name = state.annotate(Approve | Op.Lock, draft.name)));
+
+      expect(state.inspect.name.is(Approve)).toBe(true);
+      expect(state.inspect.name.is(Escalate)).toBe(false);
+      expect(state.inspect.name.isAll(Approve | Op.Lock)).toBe(true);
+      expect(state.query(Approve)).toHaveLength(1);
+      expect(state.stats().Approve).toBe(1);
+      expect(state.stats().Escalate).toBe(0);
+      expect(names(state.inspect.name.operations())).toEqual(['Lock', 'Approve']);
+    });
+  });
+
+  /**
+   * Tests for the deep scope of the pending(), remaining() and is() inspectors.
+   */
+  describe('deep inspection', () => {
+    /**
+     * Verifies that deep checks see annotations on descendants that shallow checks miss.
+     */
+    it('considers every descendant', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      state.produce((draft) => void (draft.locations[1].name = state.annotate(Op.Update, 'Pending')));
+      state.produce((draft) => void (draft.locations[2] = state.annotate(Op.Remove, draft.locations[2])));
+
+      expect(state.inspect.locations.pending()).toBe(false);
+      expect(state.inspect.locations.pending({ deep: true })).toBe(true);
+      expect(state.inspect.locations.remaining({ deep: true })).toBe(2);
+      expect(state.inspect.locations.is(Op.Remove, { deep: true })).toBe(true);
+      expect(state.inspect.locations.is(Op.Add, { deep: true })).toBe(false);
+      expect(state.inspect.locations[2].remaining({ deep: true })).toBe(1);
+      expect(state.inspect.locations[0].pending({ deep: true })).toBe(false);
+      expect(state.inspect.name.pending({ deep: true })).toBe(false);
+      expect(state.inspect.pending({ deep: true })).toBe(true);
+    });
+  });
+
+  /**
+   * Tests for the draft projection of the whole model.
+   */
+  describe('draft', () => {
+    /**
+     * Verifies that pending values are applied across the model and removed items are hidden.
+     */
+    it('applies every pending annotation', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      state.produce((draft) => {
+        draft.name.first = state.annotate(Op.Update, 'Pending');
+        draft.locations[0] = state.annotate(Op.Remove, draft.locations[0]);
+        draft.locations.push(state.annotate(Op.Add, { name: 'Added' }));
+      });
+
+      expect(state.draft.name).toEqual({ ...state.model.name, first: 'Pending' });
+      expect(state.draft.locations.map((location) => location.name)).toEqual([
+        model.locations[1].name,
+        model.locations[2].name,
+        'Added',
+      ]);
+      expect(state.model.name.first).toBe(model.name.first);
+      expect(state.model.locations).toHaveLength(4);
+    });
+
+    /**
+     * Verifies that the draft value of an object is unwrapped and that property-level annotations win.
+     */
+    it('unwraps nested annotations', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      state.produce((draft) => {
+        draft.name = state.annotate(Op.Update, { ...draft.name, last: state.annotate(Op.Update, 'Last') });
+      });
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'First')));
+
+      expect(state.draft.name.first).toBe('First');
+      expect(state.draft.name.last).toBe('Last');
+    });
+
+    /**
+     * Verifies that the projection policies control how removed and added items are shown.
+     */
+    it('follows the projection policies', () => {
+      const state = new State<Model>({ draft: { removed: Visibility.Shown, added: Visibility.Hidden } });
+      state.hydrate(model);
+
+      state.produce((draft) => {
+        draft.locations[0] = state.annotate(Op.Remove, draft.locations[0]);
+        draft.locations.push(state.annotate(Op.Add, { name: 'Added' }));
+      });
+
+      expect(state.draft.locations.map((location) => location.name)).toEqual(
+        model.locations.map((location) => location.name),
+      );
+    });
+
+    /**
+     * Verifies that the projection is memoized until the next change and that view() switches models.
+     */
+    it('is memoized until the model changes', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const process = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      const draft = state.draft;
+      expect(state.draft).toBe(draft);
+      expect(state.view(true)).toBe(draft);
+      expect(state.view(false)).toBe(state.model);
+
+      state.prune(process);
+      expect(state.draft).not.toBe(draft);
+      expect(state.draft.name.first).toBe(model.name.first);
     });
   });
 
@@ -422,6 +2338,56 @@ describe('State', () => {
       state.produce((draft) => void (draft.age = 60));
       expect(callback).toHaveBeenCalledTimes(1);
     });
+
+    /**
+     * Verifies that a path-scoped observer only fires when its own value changes.
+     */
+    it('scopes observers to a path via inspect', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const first = vi.fn();
+      const second = vi.fn();
+
+      state.inspect.locations[0].observe(first);
+      const unsubscribe = state.inspect.locations[1].name.observe(second);
+
+      state.produce((draft) => void (draft.locations[0].name = 'Updated'));
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(first).toHaveBeenCalledWith(
+        state.model.locations[0],
+        expect.objectContaining({ name: model.locations[0].name }),
+      );
+      expect(second).not.toHaveBeenCalled();
+
+      state.produce((draft) => void (draft.age = 150));
+      expect(first).toHaveBeenCalledTimes(1);
+
+      state.produce((draft) => void (draft.locations[1].name = 'Renamed'));
+      expect(second).toHaveBeenCalledWith('Renamed', model.locations[1].name);
+      unsubscribe();
+      state.produce((draft) => void (draft.locations[1].name = 'Again'));
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Verifies that a path-scoped observer fires when the annotations at its path change.
+     */
+    it('fires when the annotations at the path change', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      const observer = vi.fn();
+
+      state.inspect.name.first.observe(observer);
+      const process = state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'Pending')));
+      expect(observer).toHaveBeenCalledTimes(1);
+      expect(observer).toHaveBeenCalledWith(model.name.first, model.name.first);
+
+      state.produce((draft) => void (draft.age = state.annotate(Op.Update, 150)));
+      expect(observer).toHaveBeenCalledTimes(1);
+
+      state.prune(process);
+      expect(observer).toHaveBeenCalledTimes(2);
+    });
   });
 
   /**
@@ -650,6 +2616,24 @@ describe('State', () => {
     });
   });
 
+  describe('Inspect<T> reserved keys', () => {
+    it('reaches model properties named after inspector methods through at()', () => {
+      type Upload = { name: string; progress: number; byId: string };
+      const state = new State<Upload>();
+      state.hydrate({ name: 'report.pdf', progress: 0, byId: 'owner' });
+
+      state.produce((draft) => void (draft.progress = state.annotate(Op.Update, 0.5)));
+
+      // @ts-expect-error progress is the inspector method, not the model property
+      expect(state.inspect.progress.pending).toBeUndefined();
+      expect(state.inspect.at('progress').pending()).toBe(true);
+      expect(state.inspect.at('progress').draft()).toBe(0.5);
+      expect(typeof state.inspect.byId).toBe('function');
+      expect(state.inspect.at('byId').pending()).toBe(false);
+      expect(state.inspect.name.pending()).toBe(false);
+    });
+  });
+
   describe('Inspect<T> depth limit', () => {
     it('typechecks eight-level-deep nested paths and reports their pending state', () => {
       type Deep = {
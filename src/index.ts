@@ -1,18 +1,47 @@
+import type { Patch } from 'immer';
 import { nanoid } from 'nanoid';
 import {
   Annotation,
+  type At,
+  type Commit,
+  type Conflict,
+  type Context,
+  type Details,
+  type Dropped,
+  type Effect,
+  type Entry,
+  type Failure,
+  type Flag,
+  type Events,
+  type Hit,
   type Identity,
-  type Inspect,
+  type Listener,
+  type Meta,
+  type Match,
   type Model,
   Mode,
-  type Operation,
+  type Note,
+  type Options,
+  type Path,
   type Process,
+  type Progress,
+  type Projection,
   type Recipe,
-  type Registry,
+  Registry,
+  Resolution,
+  Rollback,
+  type Root,
+  type Segments,
+  type Settings,
+  type Settle,
+  type Snapshot,
+  type Stats,
+  type Subscribe,
   type Subscriber,
+  type Summary,
 } from './types';
 import * as utils from './utils';
-import { A } from '@mobily/ts-belt';
+import { A, G } from '@mobily/ts-belt';
 
 /**
  * State management class that tracks model mutations with annotations.
@@ -21,21 +50,91 @@ import { A } from '@mobily/ts-belt';
 export class State<M extends Model> {
   /** The current model state */
   #model: M = <M>{};
+  /** The confirmed model from the most recent hydrate() */
+  #base: M = <M>{};
   /** Function to generate unique IDs from snapshots */
   #identity: Identity<M>;
   /** Map of IDs to their annotations */
-  #registry: Registry<M> = new Map();
+  #registry: Registry<M> = new Registry();
   /** Subscribers waiting for registry changes */
   #subscribers: Set<Subscriber> = new Set();
+  /** Adds a subscriber for state changes */
+  #subscribe: Subscribe = (subscriber) => void this.#subscribers.add(subscriber);
+  /** Removes a subscriber for state changes */
+  #unsubscribe: Subscribe = (subscriber) => void this.#subscribers.delete(subscriber);
   /** Whether hydrate() has been called */
   #hydrated = false;
+  /** Whether dispose() has been called */
+  #disposed = false;
+  /** Aborts outstanding waits when the state is reset or disposed */
+  #lifecycle = new AbortController();
+  /** Listeners of outstanding waits that reject when a process fails */
+  #failures: Set<Failure> = new Set();
+  /** Internals shared with the inspect proxy and waits */
+  #context: Context<M>;
+  /** Root inspect proxy, which caches the proxies beneath it */
+  #inspect: Root<M>;
+  /** How annotated items are shown in the draft projection */
+  #projection: Projection;
+  /** Memoized draft projection, cleared on every change */
+  #draft: null | M = null;
+  /** Live processes, either batching or with pending annotations, in creation order */
+  #processes: Map<Process, Details> = new Map();
+  /** Maximum number of undoable entries, zero when history is disabled */
+  #capacity: number;
+  /** Entries that can be undone, oldest first */
+  #past: Entry[] = [];
+  /** Entries that can be redone, most recently undone last */
+  #future: Entry[] = [];
+  /** Process shared by every mutation inside the current batch, also tracked in #processes */
+  #batch: null | Process = null;
+  /** Nesting depth of batch() calls */
+  #depth = 0;
+  /** Whether a notification was held back during the current batch */
+  #deferred = false;
+  /** Default milliseconds before a live process expires, zero when processes never expire */
+  #ttl: number;
+  /** Default rollback policy for expired processes */
+  #rollback: Rollback;
+  /** Policy for writes that overlap another process's pending annotations */
+  #resolution: Resolution;
+  /** Whether hydrate() replays live processes on top of the new base */
+  #rebase: boolean;
+  /** Event listeners keyed by event name */
+  #listeners: Map<keyof Events, Set<Listener<never>>> = new Map();
 
   /**
    * Creates a new State instance.
-   * @param {Identity<M>} [identity] - Optional function to generate unique IDs for snapshots
+   * @param {Identity<M> | Settings<M>} [settings] - Optional identity function or settings object
    */
-  constructor(identity: Identity<M> = utils.identity) {
-    this.#identity = identity;
+  constructor(settings: Identity<M> | Settings<M> = {}) {
+    const {
+      identity = utils.identity,
+      history = 0,
+      ttl = 0,
+      rollback = Rollback.Prune,
+      conflict = Resolution.Notify,
+      rebase = false,
+      draft = {},
+    } = G.isFunction(settings) ? { identity: settings } : settings;
+    this.#identity = utils.memoize(identity);
+    this.#capacity = history;
+    this.#ttl = ttl;
+    this.#rollback = rollback;
+    this.#resolution = conflict;
+    this.#rebase = rebase;
+    this.#projection = draft;
+    this.#context = {
+      model: () => this.#model,
+      registry: this.#registry,
+      identity: this.#identity,
+      processes: this.#processes,
+      subscribe: this.#subscribe,
+      unsubscribe: this.#unsubscribe,
+      lifecycle: () => this.#lifecycle.signal,
+      failures: this.#failures,
+    };
+    this.#inspect = utils.inspect(this.#context);
   }
 
   /**
@@ -52,17 +151,50 @@ export class State<M extends Model> {
   /**
    * Wraps a value with an annotation for tracking operations.
    * @template T - The value type
-   * @param {Operation} operation - The operation type (Add, Remove, Update, etc.)
+   * @template A - The metadata type
+   * @param {Flag} operation - The operation type (Add, Remove, Update, etc., or one registered with define())
    * @param {T} value - The value to annotate
+   * @param {Note<A>} [note] - Metadata describing this change, such as its actor or reason
    * @returns {T} The annotated value (typed as T for assignment compatibility)
    */
-  annotate<T>(operation: Operation, value: T): T {
-    return <T>new Annotation<T>(value, operation);
+  annotate<T, A extends Meta = Meta>(operation: Flag, value: T, { meta }: Note<A> = {}): T {
+    return <T>new Annotation<T>(value, operation, meta);
   }
 
   /** Shorthand alias for {@link annotate} using the Greek delta symbol. */
   δ = this.annotate;
 
+  /**
+   * Returns the value at a dotted or tuple path in the model.
+   * @template P - The path type
+   * @param {P} path - Path such as `'people.3.name'` or `['people', 3, 'name']`
+   * @returns {At<M, P>} The value at the path, or undefined if it does not exist
+   */
+  get<P extends Path<M>>(path: P): At<M, P> {
+    return <At<M, P>>utils.get(this.#model, path);
+  }
+
+  /**
+   * Sets the value at a dotted or tuple path in the model, annotating it when an operation is given.
+   * @template P - The path type
+   * @param {P} path - Path such as `'people.3.name'` or `['people', 3, 'name']`
+   * @param {At<M, P>} value - The value to set
+   * @param {Flag} [operation] - Operation to annotate the value with
+   * @returns {Process} A unique process symbol for tracking this mutation
+   */
+  set<P extends Path<M>>(path: P, value: At<M, P>, operation?: Flag): Process {
+    const keys = utils.segments(path);
+    const key = keys.at(-1);
+    if (G.isNullable(key)) throw new Error('set() requires a path to a value within the model');
+
+    return this.produce((draft) => {
+      const parent = <Record<string | number, unknown>>utils.get(draft, keys.slice(0, -1));
+      if (G.isNullable(parent)) throw new Error(`set() cannot reach ${keys.join('.')}`);
+      const index = G.isArray(parent) ? Number(key) : key;
+      parent[index] = G.isNullable(operation) ? value : this.annotate(operation, value);
+    });
+  }
+
   /**
    * Returns the current model state.
    * @returns {M} The current model
@@ -71,85 +203,694 @@ export class State<M extends Model> {
     return this.#model;
   }
 
+  /**
+   * Returns the model with every pending annotation's draft value applied. Items annotated with
+   * Op.Remove or Op.Add are shown according to the draft setting. Memoized until the next change.
+   * @returns {M} The draft model
+   */
+  get draft(): M {
+    this.#draft ??= utils.project(this.#model, this.#registry, this.#identity, this.#projection);
+    return this.#draft;
+  }
+
+  /**
+   * Returns either the optimistic draft model or the committed model.
+   * @param {boolean} optimistic - Whether to return the draft model
+   * @returns {M} The draft model when optimistic, otherwise the committed model
+   */
+  view(optimistic: boolean): M {
+    return optimistic ? this.draft : this.#model;
+  }
+
+  /**
+   * Returns the confirmed base model from the most recent hydrate(), without the changes of
+   * processes produced since.
+   * @returns {M} The base model
+   */
+  get base(): M {
+    return this.#base;
+  }
+
   /**
    * Returns a proxy for inspecting pending operations at any path.
-   * @returns {Inspect<M>} Proxy with pending(), is(), draft(), and settled() methods
-   */
-  get inspect(): Inspect<M> {
-    return utils.inspect(
-      () => this.#model,
-      this.#registry,
-      this.#identity,
-      (subscriber) => this.#subscribers.add(subscriber),
-      (subscriber) => this.#subscribers.delete(subscriber),
-    );
+   * @returns {Root<M>} Proxy with pending(), is(), draft(), settled(), annotations() and observe() methods,
+   * plus byId() to find entities by their identity
+   */
+  get inspect(): Root<M> {
+    return this.#inspect;
   }
 
   /**
    * Hydrates the state with a model, extracting annotations and registering them.
-   * Unlike produce(), annotation values become the actual model values.
+   * Unlike produce(), annotation values become the actual model values. When the rebase setting
+   * is enabled, the changes of live processes are replayed on top of the new base model.
    * @param {M} model - The model to hydrate with (may contain annotations)
+   * @param {Options} [options] - Optional label and metadata for the process
    * @returns {Process} A unique process symbol for tracking this mutation batch
    */
-  hydrate(model: M): Process {
+  hydrate(model: M, options: Options = {}): Process {
+    this.#assert();
+    if (options.signal?.aborted) throw utils.abort();
+    if (this.#batch) this.#join(this.#batch, options);
+    const replay = this.#rebase && this.#hydrated;
     this.#hydrated = true;
-    return this.#apply(Mode.Hydrate, () => model);
+    this.#past = [];
+    this.#future = [];
+    if (!replay) return this.#apply(Mode.Hydrate, () => model, options);
+
+    this.#depth += 1;
+    try {
+      const previous = this.#model;
+      const process = this.#apply(Mode.Hydrate, () => model, options);
+      this.#replay(previous);
+      return process;
+    } finally {
+      this.#depth -= 1;
+      this.#notify();
+    }
+  }
+
+  /**
+   * Merges refetched data into the model, keeping the tags of entities that match existing ones
+   * so their pending annotations stay attached. Entities are matched on the given key, such as
+   * `id`, or with the identity function. The merged model is then hydrated.
+   * @param {M} model - The incoming model (may contain annotations)
+   * @param {Match} [options] - The matching key plus optional label and metadata for the process
+   * @returns {Process} A unique process symbol for tracking this mutation batch
+   */
+  merge(model: M, options: Match = {}): Process {
+    const { key, ...rest } = options;
+    return this.hydrate(utils.merge(this.#model, model, this.#identity, key), rest);
+  }
+
+  /**
+   * Replays the forward patches of every live process, in creation order, on top of the current
+   * model and records the change each replay made, so the process can still be reverted. A
+   * process whose patches no longer apply is failed and discarded, and the dropped event is
+   * emitted for it. Annotations of the replayed processes whose objects are no longer part of the
+   * model are then attached to the objects now at the same path.
+   * @param {M} previous - The model before the new base was hydrated
+   */
+  #replay(previous: M): void {
+    const replayed: Set<Process> = new Set();
+    const dropped: Dropped[] = [];
+    this.#processes.forEach((details, process) => {
+      try {
+        const model = utils.Config.immer.applyPatches(this.#model, details.patches);
+        details.changes = [{ before: this.#model, after: model }];
+        this.#model = model;
+        replayed.add(process);
+      } catch (reason) {
+        const { label, meta } = details;
+        dropped.push({ process, label, meta, reason });
+      }
+    });
+    dropped.forEach(({ process, reason }) => {
+      this.#fail(process, reason);
+      this.#discard(process);
+    });
+
+    const before = utils.locate(previous, this.#identity);
+    const after = utils.locate(this.#model, this.#identity);
+    [...this.#registry.entries()].forEach(([id, annotations]) => {
+      const path = before.get(id);
+      if (after.has(id) || !path) return;
+      const target = utils.get(this.#model, path);
+      if (!G.isArray(target) && !G.isObject(target)) return;
+      const moved = annotations.filter(({ process }) => replayed.has(<Process>process));
+      if (A.isEmpty(moved)) return;
+      const remaining = annotations.filter(({ process }) => !replayed.has(<Process>process));
+      const current = this.#identity(<Snapshot<M>>target);
+      this.#registry.set(current, [...moved, ...(this.#registry.get(current) ?? [])]);
+      if (A.isEmpty(remaining)) this.#registry.delete(id);
+      else this.#registry.set(id, remaining);
+    });
+    dropped.forEach((payload) => this.#emit('dropped', payload));
   }
 
   /**
    * Applies mutations to the model using an Immer recipe.
    * @param {Recipe<M>} recipe - Function that mutates the draft
+   * @param {Options} [options] - Optional label and metadata for the process
    * @returns {Process} A unique process symbol for tracking this mutation batch
    */
-  produce(recipe: Recipe<M>): Process {
+  produce(recipe: Recipe<M>, options: Options = {}): Process {
+    this.#assert();
     if (!this.#hydrated) {
       throw new Error('State must be hydrated using hydrate() before calling produce()');
     }
-    return this.#apply(Mode.Produce, recipe);
+    if (options.signal?.aborted) throw utils.abort();
+    if (this.#batch) this.#join(this.#batch, options);
+    return this.#apply(Mode.Produce, recipe, options);
+  }
+
+  /**
+   * Runs an optimistic transaction: applies the optimistic recipe, awaits the effect, applies the
+   * commit recipe with the effect's result and prunes the optimistic process. The commit runs as
+   * part of the optimistic process, so it never conflicts with the process's own annotations. The
+   * process is tracked before the optimistic recipe runs, so it can be rolled back even when the
+   * recipe annotates nothing. If the effect or the commit throws, the optimistic process is
+   * reverted and the error is rethrown. If the state is reset or disposed while the effect is in
+   * flight, the commit is skipped and the transaction rejects with the same reason as waits do.
+   * @template T - The effect's result type
+   * @param {Recipe<M>} optimistic - Recipe applying the optimistic changes
+   * @param {Effect<T>} effect - Async side effect, typically the network request
+   * @param {Commit<M, T>} [commit] - Recipe applying the authoritative values from the result
+   * @returns {Promise<T>} The effect's result
+   */
+  async transact<T>(optimistic: Recipe<M>, effect: Effect<T>, commit?: Commit<M, T>): Promise<T> {
+    this.#assert();
+    if (!this.#hydrated) {
+      throw new Error('State must be hydrated using hydrate() before calling transact()');
+    }
+    const process = this.#batch ?? Symbol('process');
+    const lifecycle = this.#lifecycle.signal;
+    if (!this.#processes.has(process)) this.#track(process, {});
+
+    try {
+      this.#apply(Mode.Produce, optimistic, {}, process);
+      const result = await effect(process);
+      if (lifecycle.aborted) throw lifecycle.reason;
+      if (commit) this.#apply(Mode.Produce, (draft) => commit(draft, result), {}, process);
+      this.prune(process);
+      return result;
+    } catch (error) {
+      try {
+        if (!lifecycle.aborted) this.revert(process);
+      } catch {
+        // Rolling back must not hide why the transaction failed, so the process is pruned instead.
+        this.prune(process);
+      }
+      throw error;
+    }
   }
 
   /**
    * Internal method that applies a recipe and reconciles annotations.
    * @param {Mode} mode - Mode.Produce preserves originals, Mode.Hydrate uses annotation values
    * @param {Recipe<M>} recipe - Function that mutates the draft
+   * @param {Options} options - Label and metadata for a newly created process
+   * @param {Process} [process] - The process to apply the recipe as, defaults to the batch's or a new one
    * @returns {Process} A unique process symbol for tracking this mutation batch
    */
-  #apply(mode: Mode, recipe: Recipe<M>): Process {
-    const process = Symbol('process');
-
+  #apply(
+    mode: Mode,
+    recipe: Recipe<M>,
+    options: Options,
+    process: Process = this.#batch ?? Symbol('process'),
+  ): Process {
+    const before = this.#model;
     const [, patches] = utils.Config.immer.produceWithPatches(this.#model, recipe);
 
-    this.#model = patches.reduce(
-      (model, patch) =>
-        utils.Config.immer.applyPatches(model, [
-          { ...patch, value: utils.reconcile(mode, patch, model, process, this.#registry, this.#identity) },
-        ]),
-      this.#model,
-    );
+    const changed: Patch[] = [];
+    const detected: Conflict[] = [];
+    this.#model = patches.reduce((model, patch) => {
+      const overlaps =
+        mode === Mode.Produce ? utils.conflicts(patch, model, process, this.#registry, this.#identity) : [];
+      overlaps.forEach((annotation) =>
+        detected.push({
+          path: patch.path,
+          resolution: this.#resolution,
+          local: { value: annotation.value, process: <Process>annotation.process },
+          remote: { value: patch.value, process },
+        }),
+      );
+      if (A.isNotEmpty(overlaps) && this.#resolution === Resolution.Local) return model;
+      if (A.isNotEmpty(overlaps) && this.#resolution === Resolution.Remote) this.#evict(overlaps);
+
+      const value = utils.tag(utils.reconcile(mode, patch, model, process, this.#registry, this.#identity));
+      if (patch.op !== 'replace' || value !== utils.get(model, patch.path)) {
+        changed.push({ ...patch, path: utils.append(patch, model), value });
+      }
+      return utils.Config.immer.applyPatches(model, [{ ...patch, value }]);
+    }, this.#model);
     this.#model = utils.tag(this.#model);
+    if (this.#processes.has(process) || utils.annotated(this.#registry, process)) {
+      const details = this.#processes.get(process) ?? this.#track(process, options);
+      if (mode === Mode.Produce) {
+        details.changes = [...details.changes, { before, after: this.#model }];
+        details.patches = [...details.patches, ...changed];
+      }
+    }
+    if (mode === Mode.Hydrate) this.#base = this.#model;
+    if (mode === Mode.Produce) this.#record({ process, changes: [{ before, after: this.#model }] });
     this.#notify();
+    detected.forEach((conflict) => this.#emit('conflict', conflict));
 
     return process;
   }
 
+  /**
+   * Removes specific annotations from the registry, discarding any process left without
+   * annotations outside of the current batch.
+   * @param {Annotation<M>[]} annotations - The annotations to remove
+   */
+  #evict(annotations: Annotation<M>[]): void {
+    const evicted = new Set(annotations);
+    this.#registry.forEach((annotations, id) => {
+      const remaining = annotations.filter((annotation) => !evicted.has(annotation));
+      if (A.isEmpty(remaining)) this.#registry.delete(id);
+      else this.#registry.set(id, remaining);
+    });
+    annotations.forEach(({ process }) => {
+      if (process && process !== this.#batch && !utils.annotated(this.#registry, process)) this.#discard(process);
+    });
+  }
+
+  /**
+   * Runs a function as a single unit: every produce() and hydrate() inside it shares one process,
+   * and subscribers are notified once when the outermost batch ends. Batches can be nested, in
+   * which case inner batches join the outer batch's process.
+   * @template T - The function's return type
+   * @param {(process: Process) => T} fn - Synchronous function performing the mutations
+   * @param {Options} [options] - Optional label and metadata for the batch's process
+   * @returns {T} The function's return value
+   */
+  batch<T>(fn: (process: Process) => T, options: Options = {}): T {
+    this.#assert();
+    if (options.signal?.aborted) throw utils.abort();
+    const process = this.#batch ?? Symbol('process');
+    if (G.isNullable(this.#batch)) this.#track(process, options);
+    else this.#join(process, options);
+    this.#batch = process;
+    this.#depth += 1;
+
+    try {
+      return fn(process);
+    } finally {
+      this.#depth -= 1;
+      if (this.#depth === 0) {
+        this.#batch = null;
+        if (!utils.annotated(this.#registry, process)) this.#discard(process);
+        if (this.#deferred) this.#notify();
+      }
+    }
+  }
+
+  /**
+   * Starts tracking a live process with its label and metadata, scheduling its expiry if it
+   * has a ttl and rolling it back if its signal aborts.
+   * @param {Process} process - The process symbol
+   * @param {Options} options - Label, metadata, expiry and abort options for the process
+   * @returns {Details} The process's details
+   */
+  #track(process: Process, options: Options): Details {
+    const { signal, ttl = this.#ttl } = options;
+    const details: Details = {
+      label: options.label ?? null,
+      meta: options.meta ?? {},
+      rollback: options.rollback ?? this.#rollback,
+      patches: [],
+      changes: [],
+      timer: ttl > 0 ? setTimeout(() => this.#expire(process), ttl) : null,
+      detach: null,
+      progress: null,
+    };
+    if (signal) this.#listen(process, details, signal);
+    this.#processes.set(process, details);
+    return details;
+  }
+
+  /**
+   * Adds the options of a produce(), hydrate() or batch() call inside a batch to the batch's
+   * process: its signal rolls the whole batch back, its metadata is merged in and its label is
+   * used when the batch has none. The ttl and rollback policy belong to the outermost batch.
+   * @param {Process} process - The batch's process symbol
+   * @param {Options} options - The options of the call inside the batch
+   */
+  #join(process: Process, { label, meta, ttl, rollback, signal }: Options): void {
+    if (G.isNotNullable(ttl) || G.isNotNullable(rollback)) {
+      throw new Error('ttl and rollback can only be set on the outermost batch()');
+    }
+    const details = this.#processes.get(process);
+    if (!details) return;
+    details.label ??= label ?? null;
+    details.meta = { ...details.meta, ...meta };
+    if (signal) this.#listen(process, details, signal);
+  }
+
+  /**
+   * Rolls a process back when the signal aborts, chaining the listener's removal onto the
+   * process's detach function.
+   * @param {Process} process - The process symbol
+   * @param {Details} details - The process's details
+   * @param {AbortSignal} signal - Signal that rolls the process back when aborted
+   */
+  #listen(process: Process, details: Details, signal: AbortSignal): void {
+    const cancel = () => this.#cancel(process, utils.abort());
+    signal.addEventListener('abort', cancel, { once: true });
+    const { detach } = details;
+    details.detach = () => {
+      detach?.();
+      signal.removeEventListener('abort', cancel);
+    };
+  }
+
+  /**
+   * Rolls back a process whose ttl has run out and emits the timeout event.
+   * @param {Process} process - The expired process symbol
+   */
+  #expire(process: Process): void {
+    const details = this.#cancel(process, utils.elapsed());
+    if (!details) return;
+    const { label, meta, rollback } = details;
+    this.#emit('timeout', { process, label, meta, rollback });
+  }
+
+  /**
+   * Rolls back a live process by pruning or reverting it, according to its rollback policy, and
+   * rejects the waits for it that reject on failure. A revert that throws falls back to pruning,
+   * so the process is always discarded.
+   * @param {Process} process - The process symbol
+   * @param {unknown} reason - Why the process failed
+   * @returns {Details | undefined} The rolled back process's details, if it was still live
+   */
+  #cancel(process: Process, reason: unknown): Details | undefined {
+    const details = this.#processes.get(process);
+    if (details) this.#fail(process, reason);
+    if (!details) return details;
+    try {
+      if (details.rollback === Rollback.Revert) this.revert(process);
+      else this.prune(process);
+    } catch {
+      // The process has settled even if undoing its changes fails, so it is pruned instead.
+      this.prune(process);
+    }
+    return details;
+  }
+
+  /**
+   * Reports the progress of a long-running process, such as an upload, import or export, so its
+   * annotations can drive a progress bar. The fraction is clamped between 0 and 1. Ignored once the
+   * process has settled.
+   * @param {Process} process - The process symbol
+   * @param {Progress} progress - A fraction between 0 and 1, or the loaded and total amounts
+   */
+  progress(process: Process, progress: Progress): void {
+    const details = this.#processes.get(process);
+    if (!details) return;
+    const fraction = G.isNumber(progress) ? progress : progress.total > 0 ? progress.loaded / progress.total : 0;
+    details.progress = Math.min(Math.max(fraction, 0), 1);
+    this.#notify();
+  }
+
+  /**
+   * Lists the live processes in creation order, with their label, metadata, annotation count
+   * and the paths their annotations are attached to.
+   * @returns {Summary[]} Descriptions of every live process
+   */
+  processes(): Summary[] {
+    const paths = utils.locate(this.#model, this.#identity);
+    const annotations = [...this.#registry.entries()].flatMap(([id, annotations]) =>
+      annotations.map((annotation) => ({ id, annotation })),
+    );
+
+    return [...this.#processes.entries()].map(([process, { label, meta }]) => {
+      const owned = annotations.filter(({ annotation }) => annotation.process === process);
+      const located = owned.flatMap(({ id, annotation }) => {
+        const path = paths.get(id);
+        if (!path) return [];
+        return [G.isNullable(annotation.property) ? path : path.concat(annotation.property)];
+      });
+      const unique = A.uniqBy(located, (path) => path.join('.'));
+      return { process, label, meta, annotations: A.length(owned), paths: [...unique] };
+    });
+  }
+
+  /**
+   * Lists every pending annotation whose operation matches the mask, with the path it is attached
+   * to, the current and draft value, and the owning process. Annotations whose value is no longer
+   * part of the model are left out.
+   * @param {Flag} mask - Operation flags to match, combined with bitwise OR
+   * @returns {Hit[]} A record for every matching annotation
+   */
+  query(mask: Flag): Hit[] {
+    return this.#located()
+      .filter(({ annotation }) => (annotation.operation & mask) !== 0)
+      .map(({ annotation, path }) => {
+        const current = utils.get(this.#model, path);
+        return { ...utils.descriptor(annotation, this.#processes), path, current };
+      });
+  }
+
+  /**
+   * Counts the pending annotations per operation, leaving out those whose value is no longer part
+   * of the model just like query(). An annotation combining several operations is counted once
+   * for each of them.
+   * @returns {Stats} The number of pending annotations for every operation
+   */
+  stats(): Stats {
+    const annotations = this.#located().map(({ annotation }) => annotation);
+    const counts = utils
+      .flags()
+      .map(([name, flag]) => [name, annotations.filter((annotation) => (annotation.operation & flag) !== 0).length]);
+    return <Stats>Object.fromEntries(counts);
+  }
+
+  /**
+   * Lists every annotation whose value is part of the model, with the path it is attached to.
+   * @returns {{ annotation: Annotation<M>; path: Segments }[]} The located annotations
+   */
+  #located(): { annotation: Annotation<M>; path: Segments }[] {
+    const paths = utils.locate(this.#model, this.#identity);
+
+    return [...this.#registry.entries()].flatMap(([id, annotations]) => {
+      const located = paths.get(id);
+      if (!located) return [];
+      return annotations.map((annotation) => ({
+        annotation,
+        path: G.isNullable(annotation.property) ? located : located.concat(annotation.property),
+      }));
+    });
+  }
+
+  /**
+   * Records an entry in the undo history, merging it with the previous entry when both belong
+   * to the same process. Recording a new entry clears the redo stack.
+   * @param {Entry} entry - The entry to record
+   */
+  #record(entry: Entry): void {
+    if (this.#capacity <= 0 || entry.changes.every(({ before, after }) => before === after)) return;
+
+    const previous = A.last(this.#past);
+    if (previous?.process === entry.process) {
+      previous.changes = [...previous.changes, ...entry.changes];
+    } else {
+      this.#past = [...this.#past, entry].slice(-this.#capacity);
+    }
+    this.#future = [];
+  }
+
+  /**
+   * Undoes the most recent history entry. Like revert(), its changes are undone by identity, so
+   * entries stay valid when a process in between has been reverted or skipped. Annotations are
+   * left in the registry so they resolve again once the entry is redone.
+   */
+  undo(): void {
+    const entry = this.#past.pop();
+    if (!entry) return;
+    this.#model = entry.changes.reduceRight(
+      (model, { before, after }) => utils.rewind(model, <M>before, <M>after),
+      this.#model,
+    );
+    this.#future.push(entry);
+    this.#notify();
+  }
+
+  /**
+   * Redoes the most recently undone history entry by reapplying its changes by identity. The
+   * restored objects carry their original tags, so annotations keep resolving.
+   */
+  redo(): void {
+    const entry = this.#future.pop();
+    if (!entry) return;
+    this.#model = entry.changes.reduce(
+      (model, { before, after }) => utils.rewind(model, <M>after, <M>before),
+      this.#model,
+    );
+    this.#past.push(entry);
+    this.#notify();
+  }
+
+  /**
+   * Whether there is a history entry to undo.
+   * @returns {boolean} True if undo() would change the model
+   */
+  canUndo(): boolean {
+    return A.isNotEmpty(this.#past);
+  }
+
+  /**
+   * Whether there is a history entry to redo.
+   * @returns {boolean} True if redo() would change the model
+   */
+  canRedo(): boolean {
+    return A.isNotEmpty(this.#future);
+  }
+
   /**
    * Removes all annotations associated with a specific process.
    * @param {Process} process - The process symbol to prune
    */
   prune(process: Process): void {
+    this.#discard(process);
+    this.#notify();
+  }
+
+  /**
+   * Reverts the model changes made by a process, then removes its annotations. Items the process
+   * added are removed and items it removed are brought back. Changes are undone by identity rather
+   * than by path, so a process can still be reverted after later changes moved its items around;
+   * values changed again since are left as they are.
+   * Changes made through hydrate() are confirmed data, so reverting a hydrating process only
+   * removes its annotations.
+   * The process's history entries are dropped so they cannot be undone or redone afterwards.
+   * @param {Process} process - The process symbol to revert
+   */
+  revert(process: Process): void {
+    if (this.#processes.has(process)) this.#fail(process, new Error('Process has been reverted'));
+    const changes = this.#processes.get(process)?.changes ?? [];
+    try {
+      this.#model = changes.reduceRight(
+        (model, { before, after }) => utils.rewind(model, <M>before, <M>after),
+        this.#model,
+      );
+    } finally {
+      this.#past = this.#past.filter((entry) => entry.process !== process);
+      this.#future = this.#future.filter((entry) => entry.process !== process);
+      this.#discard(process);
+      this.#notify();
+    }
+  }
+
+  /**
+   * Rejects the outstanding waits that reject on failure and are waiting for the process.
+   * @param {Process} process - The failed process symbol
+   * @param {unknown} reason - Why the process failed
+   */
+  #fail(process: Process, reason: unknown): void {
+    [...this.#failures].forEach((failure) => failure(process, reason));
+  }
+
+  /**
+   * Removes a process's annotations from the registry and stops tracking it, cancelling its
+   * expiry and abort listener.
+   * @param {Process} process - The process symbol to discard
+   */
+  #discard(process: Process): void {
     this.#registry.forEach((annotations, id) => {
       const remaining = annotations.filter((a) => a.process !== process);
       if (A.isEmpty(remaining)) this.#registry.delete(id);
       else this.#registry.set(id, remaining);
     });
-    this.#notify();
+    const details = this.#processes.get(process);
+    if (details?.timer) clearTimeout(details.timer);
+    details?.detach?.();
+    this.#processes.delete(process);
   }
 
-  /** Notifies all subscribers of state changes. */
+  /** Notifies all subscribers of state changes, or holds the notification back during a batch. */
   #notify(): void {
+    this.#draft = null;
+    this.#deferred = this.#depth > 0;
+    if (this.#deferred) return;
     this.#subscribers.forEach((subscriber) => subscriber());
   }
 
+  /**
+   * Waits until every annotation belonging to a process has been removed.
+   * @param {Process} process - The process symbol
+   * @param {Settle} [options] - Wait options, such as an abort signal, a timeout or rejecting on failure
+   * @returns {Promise<M>} Resolves with the model once the process has settled
+   */
+  settled(process: Process, options: Settle = {}): Promise<M> {
+    return utils
+      .until(
+        () => !utils.annotated(this.#registry, process),
+        this.#context,
+        options,
+        (failed) => failed === process,
+      )
+      .then(() => this.#model);
+  }
+
+  /**
+   * Waits until the registry holds no annotations at all.
+   * @param {Settle} [options] - Wait options, such as an abort signal, a timeout or rejecting on failure
+   * @returns {Promise<M>} Resolves with the model once all outstanding work has settled
+   */
+  idle(options: Settle = {}): Promise<M> {
+    return utils.until(() => this.#registry.size === 0, this.#context, options).then(() => this.#model);
+  }
+
+  /**
+   * Returns the state to its un-hydrated condition: clears the model, registry, live processes
+   * and history, and rejects outstanding settled() and idle() promises. Subscribers and event
+   * listeners are kept and notified.
+   */
+  reset(): void {
+    this.#clear(new Error('State has been reset'));
+    this.#lifecycle = new AbortController();
+    this.#notify();
+  }
+
+  /**
+   * Tears the state down: clears everything reset() does, drops all subscribers and event
+   * listeners, and rejects outstanding settled() and idle() promises. Mutating the state
+   * afterwards throws.
+   */
+  dispose(): void {
+    this.#disposed = true;
+    this.#clear(new Error('State has been disposed'));
+    this.#subscribers.clear();
+    this.#listeners.clear();
+  }
+
+  /**
+   * Clears the model, registry, live processes and history, then aborts the lifecycle so
+   * outstanding waits reject with the given reason.
+   * @param {Error} reason - The error outstanding waits reject with
+   */
+  #clear(reason: Error): void {
+    [...this.#processes.keys()].forEach((process) => this.#discard(process));
+    this.#registry.clear();
+    this.#model = <M>{};
+    this.#base = <M>{};
+    this.#hydrated = false;
+    this.#past = [];
+    this.#future = [];
+    this.#lifecycle.abort(reason);
+  }
+
+  /** Throws if the state has been disposed. */
+  #assert(): void {
+    if (this.#disposed) {
+      throw new Error('State has been disposed and can no longer be used');
+    }
+  }
+
+  /**
+   * Emits an event to its listeners.
+   * @param {E} event - The event name
+   * @param {Events[E]} payload - The event payload
+   */
+  #emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    this.#listeners.get(event)?.forEach((listener) => (<Listener<E>>listener)(payload));
+  }
+
+  /**
+   * Listens to an event, such as `timeout` when an expired process has been rolled back.
+   * @param {E} event - The event name
+   * @param {Listener<E>} listener - Function called with the event payload
+   * @returns {() => void} Unsubscribe function
+   */
+  on<E extends keyof Events>(event: E, listener: Listener<E>): () => void {
+    const listeners = this.#listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.#listeners.set(event, listeners);
+    return () => listeners.delete(listener);
+  }
+
   /**
    * Subscribes to model changes.
    * @param {(model: M) => void} callback - Function called with the model on every change
@@ -162,6 +903,42 @@ export class State<M extends Model> {
   }
 }
 
-export { Operation, Operation as Op } from './types';
-export { isBox } from './utils';
-export type { Box, Id, Identity, Inspect, Snapshot, Process } from './types';
+export { Level, Operation, Operation as Op, Resolution, Rollback, Visibility } from './types';
+export { define, isBox, names } from './utils';
+export type {
+  At,
+  Box,
+  Commit,
+  Conflict,
+  Criteria,
+  Custom,
+  Descriptor,
+  Dropped,
+  Effect,
+  Entity,
+  Events,
+  Flag,
+  Hit,
+  Id,
+  Identity,
+  Inspect,
+  Listener,
+  Match,
+  Meta,
+  Note,
+  Observer,
+  Options,
+  Path,
+  Snapshot,
+  Process,
+  Progress,
+  Projection,
+  Reserved,
+  Root,
+  Scope,
+  Settings,
+  Settle,
+  Stats,
+  Summary,
+  Timeout,
+} from './types';
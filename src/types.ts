@@ -1,4 +1,4 @@
-import type { Objectish } from 'immer';
+import type { Objectish, Patch } from 'immer';
 import { enablePatches, Immer, immerable } from 'immer';
 import { nanoid } from 'nanoid';
 
@@ -23,12 +23,209 @@ export type Snapshot<T, D extends number = 8> = [D] extends [0]
 /** Function that generates unique IDs from model snapshots */
 export type Identity<M extends Model> = (snapshot: Snapshot<M>) => Id;
 
+/** Options for constructing a State instance */
+export type Settings<M extends Model> = {
+  /** Function to generate unique IDs from snapshots */
+  identity?: Identity<M>;
+  /** Maximum number of undoable entries to keep; history is disabled when omitted or zero */
+  history?: number;
+  /** Milliseconds before a live process expires; processes never expire when omitted or zero */
+  ttl?: number;
+  /** How an expired or aborted process is rolled back, defaults to Rollback.Prune */
+  rollback?: Rollback;
+  /** How a write that overlaps another process's pending annotations is resolved, defaults to Resolution.Notify */
+  conflict?: Resolution;
+  /** Whether hydrate() replays the changes of live processes on top of the new base model */
+  rebase?: boolean;
+  /** How annotated items are shown in the draft projection */
+  draft?: Projection;
+};
+
+/** How annotated items are shown in the draft projection */
+export type Projection = {
+  /** Items annotated with Op.Remove, hidden by default */
+  removed?: Visibility;
+  /** Items annotated with Op.Add, shown by default */
+  added?: Visibility;
+};
+
 /** Immer recipe function for mutating the draft or returning a replacement */
 export type Recipe<M extends Model> = (draft: M) => void | M;
 
 /** Unique symbol identifying a mutation batch */
 export type Process = symbol;
 
+/** Arbitrary metadata attached to a process, such as a request ID, the initiating user or a start time */
+export type Meta = Record<string, unknown>;
+
+/** Optional context describing the process created by produce(), hydrate() or batch() */
+export type Options = {
+  /** Human-readable label for the process */
+  label?: string;
+  /** Metadata attached to the process */
+  meta?: Meta;
+  /** Milliseconds before the process expires, overriding the state's ttl setting */
+  ttl?: number;
+  /** How the process is rolled back when it expires or is aborted, overriding the state's rollback setting */
+  rollback?: Rollback;
+  /** Signal that rolls the process back when aborted */
+  signal?: AbortSignal;
+};
+
+/** Record describing an annotation at a path, returned by the inspect proxy's annotations() */
+export type Descriptor<T = unknown, A extends Meta = Meta> = {
+  operation: Flag;
+  /** The annotation's draft value */
+  value: T;
+  /** The process that owns the annotation */
+  process: Process;
+  /** The owning process's label */
+  label: null | string;
+  /** The owning process's metadata, overridden by the annotation's own metadata */
+  meta: A;
+  level: Level;
+};
+
+/** Record describing an annotation anywhere in the model, returned by query() */
+export type Hit = Descriptor & {
+  /** Segments to the annotated value */
+  path: Segments;
+  /** The value currently in the model at the path */
+  current: unknown;
+};
+
+/** Number of pending annotations per operation, returned by stats() */
+export type Stats = Record<keyof typeof Operation, number> & Record<string, number>;
+
+/** Options for annotating a value */
+export type Note<A extends Meta = Meta> = {
+  /** Metadata describing this change, such as its actor, reason, request ID or timestamp */
+  meta?: A;
+};
+
+/** Options for merging incoming data into the model */
+export type Match = Options & {
+  /** Property identifying entities, such as `id`; entities are matched with the identity function when omitted */
+  key?: string;
+};
+
+/** Options for waiting until annotations have settled */
+export type Settle = {
+  /** Signal that rejects the wait with an AbortError when aborted */
+  signal?: AbortSignal;
+  /** Milliseconds after which the wait rejects with a TimeoutError */
+  timeout?: number;
+  /** Whether the wait rejects when a process it waits for is reverted, aborted or expires */
+  reject?: boolean;
+};
+
+/** Options for waiting until the annotations at a path have settled */
+export type Criteria = Settle & {
+  /** Only wait for annotations matching this operation */
+  operation?: Flag;
+  /** Only wait for annotations belonging to this process */
+  process?: Process;
+};
+
+/** Called with the next and previous value when the value or the annotations at a path change */
+export type Observer<T = unknown> = (next: T, previous: T) => void;
+
+/** Called with the reason when a live process fails */
+export type Failure = (process: Process, reason: unknown) => void;
+
+/** Which annotations an inspector considers */
+export type Scope = {
+  /** Whether annotations on every descendant of the value are considered as well */
+  deep?: boolean;
+};
+
+/** Internal bookkeeping for a live process */
+export type Details = {
+  label: null | string;
+  meta: Meta;
+  rollback: Rollback;
+  /** Forward patches of the values the process changed through produce(), replayed when rebasing */
+  patches: Patch[];
+  /** The model before and after each of the process's produce() calls, oldest first, used to revert it */
+  changes: Change[];
+  /** Pending expiry timer, if the process has a ttl */
+  timer: null | ReturnType<typeof setTimeout>;
+  /** Removes the abort listeners, if the process has any signals */
+  detach: null | (() => void);
+  /** Reported progress as a fraction between 0 and 1, null until progress is reported */
+  progress: null | number;
+};
+
+/** Progress of a long-running process, as a fraction between 0 and 1 or as loaded and total amounts */
+export type Progress = number | { loaded: number; total: number };
+
+/** Payload of the timeout event, emitted after an expired process has been rolled back */
+export type Timeout = {
+  process: Process;
+  label: null | string;
+  meta: Meta;
+  rollback: Rollback;
+};
+
+/** Payload of the conflict event, emitted for every pending annotation a write overlaps */
+export type Conflict = {
+  /** Segments of the overlapping write */
+  path: Segments;
+  resolution: Resolution;
+  /** The pending annotation's draft value and process */
+  local: { value: unknown; process: Process };
+  /** The incoming value and the process writing it */
+  remote: { value: unknown; process: Process };
+};
+
+/** Payload of the dropped event, emitted when a rebase discards a process whose changes no longer apply */
+export type Dropped = {
+  process: Process;
+  label: null | string;
+  meta: Meta;
+  /** Why the process's changes could not be replayed */
+  reason: unknown;
+};
+
+/** Map of event names to their payloads */
+export type Events = {
+  timeout: Timeout;
+  conflict: Conflict;
+  dropped: Dropped;
+};
+
+/** Callback for an event */
+export type Listener<E extends keyof Events> = (payload: Events[E]) => void;
+
+/** Description of a live process returned by processes() */
+export type Summary = {
+  process: Process;
+  label: null | string;
+  meta: Meta;
+  /** Number of annotations the process has in the registry */
+  annotations: number;
+  /** Paths of the values the process's annotations are attached to */
+  paths: Segments[];
+};
+
+/** The model before and after a change, undone by identity so later changes can't invalidate it */
+export type Change = {
+  before: Model;
+  after: Model;
+};
+
+/** Undoable history entry grouping the consecutive changes of a process */
+export type Entry = {
+  process: Process;
+  changes: Change[];
+};
+
+/** Async side effect run between the optimistic and commit recipes of a transaction */
+export type Effect<T> = (process: Process) => Promise<T>;
+
+/** Immer recipe that receives the effect's result to commit the authoritative values */
+export type Commit<M extends Model, T> = (draft: M, result: T) => void | M;
+
 /** Operation types for annotations */
 export enum Operation {
   Add = 1,
@@ -55,6 +252,45 @@ export enum Operation {
   Transfer = 2_097_152,
 }
 
+/** Brand marking operation flags registered with define() */
+export const CustomBrand: unique symbol = Symbol('Custom');
+
+/** Flag of a user-defined operation registered with define() */
+export type Custom = number & { readonly [CustomBrand]: true };
+
+/** A built-in or user-defined operation flag, or several combined with bitwise OR */
+export type Flag = Operation | Custom;
+
+/** How a process is rolled back when it expires or is aborted */
+export enum Rollback {
+  /** Remove the process's annotations, keeping its changes in the model */
+  Prune = 'prune',
+  /** Undo the process's changes and remove its annotations */
+  Revert = 'revert',
+}
+
+/** How a write that overlaps another process's pending annotations is resolved */
+export enum Resolution {
+  /** Apply the incoming value and keep the pending annotations */
+  Notify = 'notify',
+  /** Keep the local draft by discarding the incoming value */
+  Local = 'local',
+  /** Apply the incoming value and remove the overlapping pending annotations */
+  Remote = 'remote',
+}
+
+/** Whether annotated items are part of the draft projection */
+export enum Visibility {
+  Shown = 'shown',
+  Hidden = 'hidden',
+}
+
+/** Whether an annotation is attached to an object itself or to one of its properties */
+export enum Level {
+  Object = 'object',
+  Property = 'property',
+}
+
 /** Mode for reconcile function */
 export enum Mode {
   /** Mutations via produce() - preserve original values, store annotations */
@@ -67,7 +303,54 @@ export enum Mode {
 export type Id = string;
 
 /** Array path to a value in the model */
-export type Path = (string | number)[];
+export type Segments = (string | number)[];
+
+/** Keys that step into a value: indices for arrays, non-function string keys for objects */
+type Step<T> = T extends readonly unknown[]
+  ? number
+  : T extends object
+    ? { [K in Extract<keyof T, string>]: T[K] extends (...args: never[]) => unknown ? never : K }[Extract<
+        keyof T,
+        string
+      >]
+    : never;
+
+/** Value reached by stepping into a value with a key */
+type Child<T, K> = T extends readonly (infer U)[] ? U : K extends keyof T ? T[K] : undefined;
+
+/** Tuple paths to every value beneath T (limited depth to avoid infinite instantiation) */
+type Tuple<T, D extends number = 8> = [D] extends [0]
+  ? never
+  : { [K in Step<NonNullable<T>>]: [K] | [K, ...Tuple<Child<NonNullable<T>, K>, DepthLimiter[D]>] }[Step<
+      NonNullable<T>
+    >];
+
+/** Joins tuple path segments with dots */
+type Join<P> = P extends [infer H extends string | number]
+  ? `${H}`
+  : P extends [infer H extends string | number, ...infer R]
+    ? `${H}.${Join<R>}`
+    : never;
+
+/** Splits a dotted path into its segments */
+type Split<S extends string> = S extends `${infer H}.${infer R}` ? [H, ...Split<R>] : [S];
+
+/** Value reached by following path segments */
+type Walk<T, P> = P extends [infer H, ...infer R] ? Walk<Child<NonNullable<T>, H>, R> : T;
+
+/**
+ * Path to a value in the model, either as a dotted string such as `'people.3.name'` or as a
+ * tuple such as `['people', 3, 'name']`.
+ * @template M - The model type
+ */
+export type Path<M> = Tuple<M> | Join<Tuple<M>>;
+
+/**
+ * Type of the value at a path in the model.
+ * @template M - The model type
+ * @template P - The dotted or tuple path
+ */
+export type At<M, P> = Walk<M, P extends string ? Split<P> : P>;
 
 /**
  * Annotation-checking methods on the inspect proxy. Carved out from
@@ -78,16 +361,28 @@ export type Path = (string | number)[];
  * @template T - The type of the value being inspected
  */
 export type BoxInspectors<T = unknown> = {
-  /** Returns true if any pending annotations exist */
-  pending(): boolean;
-  /** Returns the count of pending annotations at this path */
-  remaining(): number;
-  /** Returns true if annotation matches the given operation */
-  is(operation: Operation): boolean;
+  /** Returns true if any pending annotations exist, including descendants when deep */
+  pending(scope?: Scope): boolean;
+  /** Returns the count of pending annotations at this path, including descendants when deep */
+  remaining(scope?: Scope): number;
+  /** Returns true if annotation matches the given operation, including descendants when deep */
+  is(operation: Flag, scope?: Scope): boolean;
+  /** Returns true if the pending annotations together carry every flag in the mask, including descendants when deep */
+  isAll(mask: Flag, scope?: Scope): boolean;
+  /** Returns true if annotations are pending and carry no flags outside the mask, including descendants when deep */
+  isOnly(mask: Flag, scope?: Scope): boolean;
+  /** Returns the flags of every pending annotation combined with bitwise OR, including descendants when deep */
+  operations(scope?: Scope): Flag;
   /** Returns the draft value from the latest annotation, or the actual value from the model */
   draft(): T;
-  /** Returns a promise that resolves with the value when no more annotations exist at this path */
-  settled(): Promise<T>;
+  /** Returns a promise that resolves with the value when no more matching annotations exist at this path */
+  settled(options?: Criteria): Promise<T>;
+  /** Returns a record for every annotation at this path, newest first within each level, with its metadata typed as A */
+  annotations<A extends Meta = Meta>(): Descriptor<T, A>[];
+  /** Calls the observer when the value, the annotations or their progress at this path change, returns an unsubscribe function */
+  observe(observer: Observer<T>): () => void;
+  /** Returns the progress of the newest annotation at this path whose process reports progress, or null */
+  progress(): null | number;
 };
 
 /**
@@ -97,8 +392,16 @@ export type BoxInspectors<T = unknown> = {
 type Inspectors<T = unknown> = BoxInspectors<T> & {
   /** Returns the current model value and an inspect proxy for this path */
   box(): Box<T>;
+  /** Returns the inspect proxy for a dotted or tuple path beneath this path */
+  at<P extends Path<T>>(path: P): Inspect<At<T, P>>;
 };
 
+/**
+ * Names of the methods on the inspect proxy. A model property with one of these names is hidden
+ * behind the method, so it is left out of {@link Inspect} and reached with `at()` instead.
+ */
+export type Reserved = keyof BoxInspectors | 'box' | 'at';
+
 type UnionKeys<T> = T extends T ? keyof T : never;
 
 type ValueAt<T, K extends PropertyKey> = T extends T ? (K extends keyof T ? T[K] : undefined) : never;
@@ -107,12 +410,33 @@ export type Inspect<T, D extends number = 8> = Inspectors<T> &
   ([D] extends [0]
     ? object
     : {
-        [K in UnionKeys<T> as ValueAt<T, K> extends (...args: unknown[]) => unknown ? never : K]: Inspect<
-          ValueAt<T, K>,
-          DepthLimiter[D]
-        >;
+        [K in UnionKeys<T> as K extends Reserved
+          ? never
+          : ValueAt<T, K> extends (...args: unknown[]) => unknown
+            ? never
+            : K]: Inspect<ValueAt<T, K>, DepthLimiter[D]>;
       });
 
+/**
+ * Inspect proxy for the whole model, which can also find entities by their identity.
+ * @template M - The model type
+ */
+export type Root<M> = Omit<Inspect<M>, 'byId'> & {
+  /** Returns the inspectors for the entity with the given identity, wherever it sits in the model */
+  byId<T = unknown>(id: Id): Entity<T>;
+};
+
+/**
+ * An entity found by its identity, returned by the inspect proxy's byId().
+ * @template T - The type of the entity
+ */
+export type Entity<T = unknown> = {
+  /** The entity's current path, or null if it is no longer part of the model */
+  readonly path: null | Segments;
+  /** Inspectors that follow the entity as it moves within the model */
+  inspect: Inspect<T>;
+};
+
 /**
  * Nested variant of {@link BoxInspectors}: exposes the annotation methods at
  * every path beneath a boxed value, mirroring {@link Inspect} but *without*
@@ -127,10 +451,11 @@ export type BoxInspect<T, D extends number = 8> = BoxInspectors<T> &
   ([D] extends [0]
     ? object
     : {
-        [K in UnionKeys<T> as ValueAt<T, K> extends (...args: unknown[]) => unknown ? never : K]: BoxInspect<
-          ValueAt<T, K>,
-          DepthLimiter[D]
-        >;
+        [K in UnionKeys<T> as K extends Reserved
+          ? never
+          : ValueAt<T, K> extends (...args: unknown[]) => unknown
+            ? never
+            : K]: BoxInspect<ValueAt<T, K>, DepthLimiter[D]>;
       });
 
 /** Internal keys for Annotation class properties */
@@ -139,6 +464,7 @@ enum Keys {
   Process = 'process',
   Value = 'value',
   Operation = 'operation',
+  Meta = 'meta',
 }
 
 /**
@@ -153,15 +479,18 @@ export class Annotation<T> {
   public [Keys.Property]: Property = null;
   public [Keys.Process]: null | Process = null;
   public [Keys.Value]: T;
-  public [Keys.Operation]: Operation;
+  public [Keys.Operation]: Flag;
+  public [Keys.Meta]: Meta;
 
   /**
    * @param {T} value - The value to wrap
-   * @param {Operation} operation - The operation type
+   * @param {Flag} operation - The operation type
+   * @param {Meta} [meta] - Metadata describing this change, such as its actor or reason
    */
-  constructor(value: T, operation: Operation) {
+  constructor(value: T, operation: Flag, meta: Meta = {}) {
     this[Keys.Value] = value;
     this[Keys.Operation] = operation;
+    this[Keys.Meta] = meta;
   }
 
   /**
@@ -171,15 +500,67 @@ export class Annotation<T> {
    * @returns {Annotation<T>} New annotation with assignments
    */
   assign(property: Property, process: Process): Annotation<T> {
-    const annotation = new Annotation(this.value, this.operation);
+    const annotation = new Annotation(this.value, this.operation, this.meta);
     annotation.property = property;
     annotation.process = process;
     return annotation;
   }
 }
 
-/** Map of IDs to their annotations */
-export type Registry<M extends Model> = Map<Id, Annotation<M>[]>;
+/**
+ * Map of IDs to their annotations, newest first. An index by property is kept alongside so that
+ * looking up the annotations of one property doesn't scan every annotation on the object.
+ * @template M - The model type
+ */
+export class Registry<M extends Model> extends Map<Id, Annotation<M>[]> {
+  /** Annotations per ID grouped by property, null for object-level annotations */
+  #index: Map<Id, Map<Property, Annotation<M>[]>> = new Map();
+
+  /**
+   * Sets the annotations for an ID and indexes them by property.
+   * @param {Id} id - The ID of the annotated object
+   * @param {Annotation<M>[]} annotations - The object's annotations, newest first
+   * @returns {this} The registry
+   */
+  override set(id: Id, annotations: Annotation<M>[]): this {
+    super.set(id, annotations);
+    const index: Map<Property, Annotation<M>[]> = new Map();
+    annotations.forEach((annotation) => {
+      const property = annotation.property ?? null;
+      const group = index.get(property);
+      if (group) group.push(annotation);
+      else index.set(property, [annotation]);
+    });
+    this.#index.set(id, index);
+    return this;
+  }
+
+  /**
+   * Removes the annotations for an ID.
+   * @param {Id} id - The ID of the annotated object
+   * @returns {boolean} True if the ID had annotations
+   */
+  override delete(id: Id): boolean {
+    this.#index.delete(id);
+    return super.delete(id);
+  }
+
+  /** Removes every annotation. */
+  override clear(): void {
+    this.#index.clear();
+    super.clear();
+  }
+
+  /**
+   * Returns the annotations for an ID at one level, newest first.
+   * @param {Id} id - The ID of the annotated object
+   * @param {Property} property - The property key, null for object-level annotations
+   * @returns {Annotation<M>[]} The matching annotations
+   */
+  at(id: Id, property: Property): Annotation<M>[] {
+    return this.#index.get(id)?.get(property ?? null) ?? [];
+  }
+}
 
 /** Callback for registry change subscriptions */
 export type Subscriber = () => void;
@@ -187,6 +568,21 @@ export type Subscriber = () => void;
 /** Function to add or remove a subscriber */
 export type Subscribe = (subscriber: Subscriber) => void;
 
+/** State internals shared with the inspect proxy and waits */
+export type Context<M extends Model> = {
+  /** Returns the current model state */
+  model: () => M;
+  registry: Registry<M>;
+  identity: Identity<M>;
+  processes: Map<Process, Details>;
+  subscribe: Subscribe;
+  unsubscribe: Subscribe;
+  /** Returns the signal that aborts, with the reason, when the state is reset or disposed */
+  lifecycle: () => AbortSignal;
+  /** Listeners called when a live process is reverted, aborted or expires */
+  failures: Set<Failure>;
+};
+
 /** Shared Immer instance with patches enabled and autoFreeze disabled */
 export class Config {
   static immer = (() => {
@@ -201,6 +597,9 @@ export class Config {
 
   /** Generates a unique ID for tagging objects */
   static id = nanoid;
+
+  /** User-defined operations by name, each with its own bit above the built-in flags */
+  static operations: Map<string, Custom> = new Map();
 }
 
 /** Type for tagged objects */
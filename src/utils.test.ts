@@ -1,7 +1,8 @@
 import { faker } from '@faker-js/faker';
-import { describe, expect, it } from 'vitest';
-import { get, isBox, plain, primitive, tag } from './utils';
-import { Op, State } from '.';
+import { describe, expect, it, vi } from 'vitest';
+import { get, identity, isBox, locate, memoize, merge, plain, primitive, tag, untag } from './utils';
+import { Annotation, Registry } from './types';
+import { Level, Op, State } from '.';
 
 describe('get()', () => {
   const input = {
@@ -157,6 +158,120 @@ describe('tag()', () => {
     expect(tagged.name).toBe('test');
     expect(tagged.nested.value).toBe(1);
   });
+
+  it('keeps the references of fully tagged branches', () => {
+    const tagged = tag({ nested: { value: 1 }, items: [{ value: 2 }] });
+    const retagged = tag({ ...tagged, other: { value: 3 } });
+
+    expect(retagged.nested).toBe(tagged.nested);
+    expect(retagged.items).toBe(tagged.items);
+    expect(retagged.other).toHaveProperty('κ');
+    expect(tag(tagged)).toBe(tagged);
+  });
+});
+
+describe('untag()', () => {
+  it('removes tags from all nested objects', () => {
+    const model = { name: { first: 'Imogen' }, locations: [{ name: 'Horsham' }] };
+    expect(untag(tag(model))).toEqual(model);
+  });
+
+  it('preserves class instances', () => {
+    const date = new Date('2025-01-01');
+    expect(untag(tag({ date })).date).toBe(date);
+  });
+});
+
+describe('merge()', () => {
+  it('copies the tags of array items matched by key', () => {
+    const current = tag({
+      people: [
+        { id: 1, name: 'Imogen' },
+        { id: 2, name: 'Phoebe' },
+      ],
+    });
+    const merged = merge(
+      current,
+      {
+        people: [
+          { id: 2, name: 'Phoebe' },
+          { id: 1, name: 'Adam' },
+        ],
+      },
+      identity,
+      'id',
+    );
+
+    expect(identity(merged)).toBe(identity(current));
+    expect(identity(merged.people[0])).toBe(identity(current.people[1]));
+    expect(identity(merged.people[1])).toBe(identity(current.people[0]));
+    expect(merged.people[1].name).toBe('Adam');
+  });
+
+  it('does not copy tags between objects with different keys', () => {
+    const current = tag({ selected: { id: 1 } });
+    const merged = merge(current, { selected: { id: 2 } }, identity, 'id');
+
+    expect(merged.selected).toEqual({ id: 2 });
+  });
+
+  it('leaves unmatched items untagged', () => {
+    const current = tag({ people: [{ id: 1 }] });
+    const merged = merge(current, { people: [{ id: 3 }] }, identity, 'id');
+
+    expect(merged.people[0]).toEqual({ id: 3 });
+  });
+});
+
+describe('locate()', () => {
+  it('maps the identity of every object and array to its path', () => {
+    const model = tag({ name: { first: 'Imogen' }, locations: [{ name: 'Horsham' }, { name: 'Brighton' }] });
+    const paths = locate(model, identity<typeof model>);
+
+    expect(paths.get(identity(model))).toEqual([]);
+    expect(paths.get(identity(model.name))).toEqual(['name']);
+    expect(paths.get(identity(model.locations))).toEqual(['locations']);
+    expect(paths.get(identity(model.locations[1]))).toEqual(['locations', 1]);
+  });
+
+  it('skips class instances', () => {
+    const model = tag({ createdAt: new Date('2025-01-01') });
+    expect([...locate(model, identity<typeof model>).values()]).toEqual([[]]);
+  });
+});
+
+describe('memoize()', () => {
+  it('computes the identity of each object once', () => {
+    const spy = vi.fn((snapshot: object) => JSON.stringify(snapshot));
+    const cached = memoize(spy);
+    const value = { name: 'Imogen' };
+
+    expect(cached(value)).toBe('{"name":"Imogen"}');
+    expect(cached(value)).toBe('{"name":"Imogen"}');
+    expect(cached({ name: 'Imogen' })).toBe('{"name":"Imogen"}');
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Registry', () => {
+  it('indexes annotations by property', () => {
+    const registry = new Registry();
+    const process = Symbol('process');
+    const object = new Annotation({}, Op.Remove).assign(null, process);
+    const first = new Annotation({ first: 'Adam' }, Op.Update).assign('first', process);
+    const last = new Annotation({ last: 'Smith' }, Op.Update).assign('last', process);
+
+    registry.set('a', [first, object, last]);
+    expect(registry.at('a', null)).toEqual([object]);
+    expect(registry.at('a', undefined)).toEqual([object]);
+    expect(registry.at('a', 'first')).toEqual([first]);
+    expect(registry.at('a', 'age')).toEqual([]);
+
+    registry.set('a', [last]);
+    expect(registry.at('a', 'first')).toEqual([]);
+    registry.delete('a');
+    expect(registry.at('a', 'last')).toEqual([]);
+  });
 });
 
 describe('box()', () => {
@@ -338,6 +453,78 @@ describe('box()', () => {
     });
   });
 
+  describe('annotations()', () => {
+    it('returns an empty array when no annotations exist', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      expect(state.inspect.name.first.annotations()).toEqual([]);
+    });
+
+    it('returns records for object- and property-level annotations', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      const archive = state.produce(
+        (draft) => void (draft.locations[0] = state.annotate(Op.Archive, { ...draft.locations[0] })),
+        { label: 'archive', meta: { user: 'Imogen' } },
+      );
+      const rename = state.produce((draft) => void (draft.locations[0].name = state.annotate(Op.Update, 'Horsham')), {
+        label: 'rename',
+      });
+
+      expect(state.inspect.locations[0].annotations()).toEqual([
+        {
+          operation: Op.Archive,
+          value: expect.objectContaining({ name: model.locations[0].name }),
+          process: archive,
+          label: 'archive',
+          meta: { user: 'Imogen' },
+          level: Level.Object,
+        },
+      ]);
+      expect(state.inspect.locations[0].name.annotations()).toEqual([
+        { operation: Op.Update, value: 'Horsham', process: rename, label: 'rename', meta: {}, level: Level.Property },
+      ]);
+    });
+
+    it('orders annotations newest first', () => {
+      const state = new State<Model>();
+      state.hydrate(model);
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update, 'First')));
+      state.produce((draft) => void (draft.name.first = state.annotate(Op.Update | Op.Lock, 'Second')));
+
+      const annotations = state.inspect.name.first.annotations();
+      expect(annotations.map(({ value }) => value)).toEqual(['Second', 'First']);
+      expect(annotations[0].operation).toBe(Op.Update | Op.Lock);
+    });
+
+    it('includes the metadata of each annotation over that of its process', () => {
+      type Audit = { actor: string; reason?: string; request?: string };
+      const state = new State<Model>();
+      state.hydrate(model);
+
+      state.produce(
+        (draft) => {
+          draft.name.first = state.annotate<string, Audit>(Op.Update, 'First', {
+            meta: { actor: 'Imogen', reason: 'Typo' },
+          });
+          draft.name.last = state.annotate(Op.Update, 'Last');
+        },
+        { meta: { actor: 'System', request: 'req_1' } },
+      );
+      state.produce(
+        (draft) =>
+          void (draft.locations[0] = state.annotate(Op.Remove, draft.locations[0], { meta: { actor: 'Adam' } })),
+      );
+
+      const [first] = state.inspect.name.first.annotations<Audit>();
+      expect(first.meta).toEqual({ actor: 'Imogen', reason: 'Typo', request: 'req_1' });
+      expect(state.inspect.name.last.annotations<Audit>()[0].meta.actor).toBe('System');
+      expect(state.inspect.locations[0].annotations<Audit>()[0].meta).toEqual({ actor: 'Adam' });
+      expect(state.query(Op.Remove)[0].meta).toEqual({ actor: 'Adam' });
+    });
+  });
+
   describe('box()', () => {
     it('returns value and inspect proxy', () => {
       const state = new State<Model>();
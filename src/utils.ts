@@ -4,22 +4,45 @@ import {
   type Box,
   BoxBrand,
   Config,
+  type Context,
+  type Criteria,
+  type Custom,
+  type Descriptor,
+  type Details,
+  type Entity,
+  type Flag,
+  type Id,
   type Identity,
-  type Inspect,
+  Level,
   type Model,
   Mode,
-  type Operation,
-  type Path,
+  type Observer,
+  Operation,
   type Process,
+  type Projection,
   type Property,
   type Registry,
+  type Root,
+  type Scope,
+  type Segments,
+  type Settle,
   type Snapshot,
-  type Subscribe,
   type Tagged,
+  Visibility,
 } from './types';
 
 export { Config, Mode, type Tagged } from './types';
-import { A, G } from '@mobily/ts-belt';
+import { A, F, G } from '@mobily/ts-belt';
+
+/**
+ * Splits a path into its segments.
+ * @param path - The path as dot-notation string (e.g., 'a.b.c') or array of keys
+ * @returns The path's keys
+ */
+export function segments(path: string | Segments): Segments {
+  if (typeof path !== 'string') return path;
+  return path === '' ? [] : path.split('.');
+}
 
 /**
  * Simple deep property access (replaces lodash/get).
@@ -27,10 +50,9 @@ import { A, G } from '@mobily/ts-belt';
  * @param path - The path as dot-notation string (e.g., 'a.b.c') or array of keys
  * @returns The value at path, or undefined if not found or path is invalid
  */
-export function get(input: unknown, path: string | (string | number)[]): unknown {
-  const keys = typeof path === 'string' ? (path === '' ? [] : path.split('.')) : path;
+export function get(input: unknown, path: string | Segments): unknown {
   let result: unknown = input;
-  for (const key of keys) {
+  for (const key of segments(path)) {
     if (result == null) return undefined;
     result = (<Record<string | number, unknown>>result)[key];
   }
@@ -41,7 +63,8 @@ export function get(input: unknown, path: string | (string | number)[]): unknown
  * Recursively tags all objects in a model with unique IDs for identity tracking.
  * Returns a new object with tags applied (immutable).
  * Arrays are not tagged directly, but their child objects are.
- * Idempotent: if an object already has a tag, it is preserved.
+ * Idempotent: if an object already has a tag, it is preserved, and branches that are already
+ * fully tagged are returned as they are so their references stay stable.
  * @param {T} model - The model to tag
  * @returns {T} A new model with tags applied
  */
@@ -49,11 +72,14 @@ export function tag<T>(model: T): T {
   if (G.isNullable(model) || primitive(model)) return model;
 
   if (G.isArray(model)) {
-    return <T>model.map((item) => tag(item));
+    const items = model.map((item) => tag(item));
+    return items.every((item, index) => item === model[index]) ? model : <T>items;
   }
 
   if (G.isObject(model) && plain(model)) {
     const entries = Object.entries(model).map(([key, value]) => [key, tag(value)]);
+    const unchanged = entries.every(([key, value]) => value === (<Record<string, unknown>>model)[key]);
+    if (unchanged && G.isNotNullable((<Tagged>model)[Config.tag])) return model;
     return <T>{
       ...Object.fromEntries(entries),
       [Config.tag]: (<Tagged>model)[Config.tag] ?? Config.id(),
@@ -63,6 +89,219 @@ export function tag<T>(model: T): T {
   return model;
 }
 
+/**
+ * Recursively removes the tags from all objects in a model.
+ * Returns a new object without tags (immutable).
+ * @param {T} model - The model to untag
+ * @returns {T} A new model without tags
+ */
+export function untag<T>(model: T): T {
+  if (G.isArray(model)) return <T>model.map((item) => untag(item));
+  if (!G.isObject(model) || !plain(model)) return model;
+  const { [Config.tag]: _, ...rest } = <Tagged>model;
+  return <T>Object.fromEntries(Object.entries(rest).map(([key, value]) => [key, untag(value)]));
+}
+
+/**
+ * Merges incoming data into the current model, copying the tags of matching current entities onto
+ * their incoming counterparts so annotations attached to them keep resolving. Array items are
+ * matched on the key when given, otherwise on their identity; objects under the same property
+ * are matched unless their keys differ. Incoming annotations are kept, with their values merged.
+ * @param {unknown} current - The current (tagged) value
+ * @param {T} incoming - The incoming value
+ * @param {Identity<M>} identity - Identity function used to match array items without a key
+ * @param {string} [key] - Property identifying entities, such as `id`
+ * @returns {T} The incoming value carrying the tags of matched entities
+ */
+export function merge<M extends Model, T>(current: unknown, incoming: T, identity: Identity<M>, key?: string): T {
+  const signature = (value: object): unknown =>
+    key ? (<Record<string, unknown>>value)[key] : identity(<Snapshot<M>>value);
+
+  if (incoming instanceof Annotation) {
+    return <T>new Annotation(merge(current, incoming.value, identity, key), incoming.operation, incoming.meta);
+  }
+
+  if (G.isArray(incoming)) {
+    const pool = new Map(
+      (G.isArray(current) ? current : [])
+        .filter((item: unknown): item is object => G.isObject(item) && plain(item))
+        .map((item) => [signature(untag(item)), item]),
+    );
+    return <T>incoming.map((item: unknown) => {
+      const value = item instanceof Annotation ? item.value : item;
+      if (!G.isObject(value) || !plain(value)) return item;
+      const id = signature(value);
+      const counterpart = G.isNullable(id) ? undefined : pool.get(id);
+      pool.delete(id);
+      return merge(counterpart, item, identity, key);
+    });
+  }
+
+  if (G.isObject(incoming) && plain(incoming)) {
+    if (!G.isObject(current) || !plain(current)) return incoming;
+    const [before, after] = key ? [signature(current), signature(incoming)] : [null, null];
+    const matched = G.isNullable(before) || G.isNullable(after) || before === after;
+    const entries = Object.entries(incoming).map(([property, value]) => [
+      property,
+      merge(matched ? (<Record<string, unknown>>current)[property] : undefined, value, identity, key),
+    ]);
+    const tag = matched ? (<Tagged>current)[Config.tag] : undefined;
+    return <T>{ ...Object.fromEntries(entries), ...(tag ? { [Config.tag]: tag } : {}) };
+  }
+
+  return incoming;
+}
+
+/**
+ * Returns the tag of a plain object, used to recognise the same object across versions of the model.
+ * @param {unknown} value - The value to read the tag of
+ * @returns {string | undefined} The tag, or undefined for anything but a tagged plain object
+ */
+function tagOf(value: unknown): string | undefined {
+  return G.isObject(value) && plain(value) ? (<Tagged>value)[Config.tag] : undefined;
+}
+
+/**
+ * Undoes a change to the model by identity rather than by path, so that it can still be undone
+ * after later changes have moved things around. Objects are recognised by their tag wherever they
+ * now sit: properties the change set are restored, array items it added are removed, items it
+ * removed are put back next to their former neighbours and items it reordered return to their
+ * former order. Values that have changed again since are left as they are.
+ * @param {T} current - The current value
+ * @param {T} before - The value before the change
+ * @param {T} after - The value after the change
+ * @returns {T} The current value with the change undone
+ */
+export function rewind<T>(current: T, before: T, after: T): T {
+  if (before === after || current === before) return current;
+  if (current === after) return before;
+
+  const tag = tagOf(after);
+  if (G.isNotNullable(tag) && tagOf(current) === tag && tagOf(before) !== tag) return before;
+
+  if ([current, before, after].every(G.isArray)) {
+    return <T>rearrange(<unknown[]>current, <unknown[]>before, <unknown[]>after);
+  }
+
+  const objects = [current, before, after].every((value) => G.isObject(value) && plain(value));
+  if (!objects || tagOf(current) !== tag) return current;
+
+  const [present, previous, next] = <Record<string, unknown>[]>[current, before, after];
+  const result = { ...present };
+  let changed = false;
+  new Set([...Object.keys(previous), ...Object.keys(next)]).forEach((key) => {
+    const value = rewind(present[key], previous[key], next[key]);
+    if (value === present[key]) return;
+    changed = true;
+    if (G.isUndefined(value) && !Object.hasOwn(previous, key)) delete result[key];
+    else result[key] = value;
+  });
+  return changed ? <T>result : current;
+}
+
+/**
+ * Undoes a change to an array by identity: see {@link rewind}. Tagged items are recognised by
+ * their tag, anything else by its value.
+ * @param {unknown[]} current - The current array
+ * @param {unknown[]} before - The array before the change
+ * @param {unknown[]} after - The array after the change
+ * @returns {unknown[]} The current array with the change undone
+ */
+function rearrange(current: unknown[], before: unknown[], after: unknown[]): unknown[] {
+  const key = (item: unknown): unknown => tagOf(item) ?? item;
+  const previous = new Map(before.map((item) => [key(item), item]));
+  const next = new Map(after.map((item) => [key(item), item]));
+
+  const items = current
+    .filter((item) => previous.has(key(item)) || !next.has(key(item)))
+    .map((item) => {
+      const id = key(item);
+      return previous.has(id) && next.has(id) ? rewind(item, previous.get(id), next.get(id)) : item;
+    });
+
+  const order = new Map(before.map((item, index) => [key(item), index]));
+  const kept = (list: unknown[]) => list.map(key).filter((id) => previous.has(id) && next.has(id));
+  const sorted = kept(after);
+  if (kept(before).some((id, index) => id !== sorted[index])) {
+    const slots = items.flatMap((item, index) => (order.has(key(item)) ? [index] : []));
+    const restored = slots
+      .map((slot) => items[slot])
+      .sort((a, b) => (order.get(key(a)) ?? 0) - (order.get(key(b)) ?? 0));
+    slots.forEach((slot, index) => (items[slot] = restored[index]));
+  }
+
+  const present = new Set(items.map(key));
+  const neighbour = (index: number, step: number): number => {
+    for (let at = index + step; at >= 0 && at < before.length; at += step) {
+      const id = key(before[at]);
+      if (present.has(id)) return items.findIndex((item) => key(item) === id);
+    }
+    return -1;
+  };
+  before.forEach((item, index) => {
+    const id = key(item);
+    if (next.has(id) || present.has(id)) return;
+    const preceding = neighbour(index, -1);
+    const following = neighbour(index, 1);
+    const position = preceding >= 0 ? preceding + 1 : following >= 0 ? following : Math.min(index, items.length);
+    items.splice(position, 0, item);
+    present.add(id);
+  });
+  return items;
+}
+
+/**
+ * Recursively replaces annotations with their values.
+ * @param {T} value - The value to unwrap
+ * @returns {T} The value without annotations
+ */
+export function unwrap<T>(value: T): T {
+  if (value instanceof Annotation) return unwrap(<T>value.value);
+  if (G.isArray(value)) return <T>value.map((item) => unwrap(item));
+  if (!G.isObject(value) || !plain(value)) return value;
+  return <T>Object.fromEntries(Object.entries(value).map(([key, item]) => [key, unwrap(item)]));
+}
+
+/**
+ * Projects the model with every pending annotation's draft value applied. The newest annotation
+ * wins, property-level annotations take precedence over the draft value of their object, and
+ * items annotated with Op.Remove or Op.Add are left out according to the projection policy.
+ * @param {M} model - The model to project
+ * @param {Registry<M>} registry - The annotation registry
+ * @param {Identity<M>} identity - Identity function for lookups
+ * @param {Projection} projection - How removed and added items are shown
+ * @returns {M} The draft model
+ */
+export function project<M extends Model>(
+  model: M,
+  registry: Registry<M>,
+  identity: Identity<M>,
+  { removed = Visibility.Hidden, added = Visibility.Shown }: Projection,
+): M {
+  const hidden = Symbol('hidden');
+
+  function visit(value: unknown): unknown {
+    if (!G.isArray(value) && !(G.isObject(value) && plain(value))) return value;
+
+    const id = identity(<Snapshot<M>>value);
+    const head = A.head(registry.at(id, null));
+    if (head && removed === Visibility.Hidden && head.operation & Operation.Remove) return hidden;
+    if (head && added === Visibility.Hidden && head.operation & Operation.Add) return hidden;
+
+    const source: unknown = head && (G.isArray(head.value) || G.isObject(head.value)) ? unwrap(head.value) : value;
+    if (G.isArray(source)) return (<unknown[]>source).map(visit).filter((item) => item !== hidden);
+
+    const entries = Object.entries(<object>source).map(([key, item]) => {
+      const property = A.head(registry.at(id, key));
+      const projected = property ? unwrap(property.value) : visit(item);
+      return [key, projected === hidden ? undefined : projected];
+    });
+    return Object.fromEntries(entries);
+  }
+
+  return <M>visit(model);
+}
+
 /**
  * Default identity function using Config.tag.
  * For objects: returns the tag ID.
@@ -87,6 +326,23 @@ export function identity<M extends Model>(snapshot: Snapshot<M>): string {
   }
 }
 
+/**
+ * Caches an identity function's IDs by object reference. The model is never changed in place, so
+ * an object keeps its ID for as long as it is part of the model.
+ * @param {Identity<M>} identity - The identity function to cache
+ * @returns {Identity<M>} The caching identity function
+ */
+export function memoize<M extends Model>(identity: Identity<M>): Identity<M> {
+  const cache: WeakMap<object, Id> = new WeakMap();
+  return (snapshot) => {
+    const cached = cache.get(<object>snapshot);
+    if (G.isNotNullable(cached)) return cached;
+    const id = identity(snapshot);
+    cache.set(<object>snapshot, id);
+    return id;
+  };
+}
+
 /**
  * Checks if a value is a plain object (created via `{}` or `Object.create(null)`).
  * Returns false for class instances like File, Date, RegExp, Map, Set, etc.
@@ -114,6 +370,56 @@ export function primitive(value: unknown): value is string | number | boolean |
   );
 }
 
+/** Bit of the first user-defined operation, directly above the built-in flags */
+const first = 22;
+
+/** Bit of the last user-defined operation, below the sign bit */
+const last = 30;
+
+/**
+ * Registers user-defined operations, each with its own bit above the built-in flags. Defining a
+ * name again returns the flag it was first given.
+ * @template N - The operation names
+ * @param {...N} keys - Names of the operations, such as `'Approve'`
+ * @returns {Record<N, Custom>} The flag of every operation by name
+ */
+export function define<const N extends string>(...keys: N[]): Record<N, Custom> {
+  return <Record<N, Custom>>Object.fromEntries(
+    keys.map((name) => {
+      if (name in Operation) throw new Error(`${name} is a built-in operation`);
+      const existing = Config.operations.get(name);
+      if (existing) return [name, existing];
+      const bit = first + Config.operations.size;
+      if (bit > last) throw new Error(`No more than ${last - first + 1} custom operations can be defined`);
+      const flag = <Custom>(1 << bit);
+      Config.operations.set(name, flag);
+      return [name, flag];
+    }),
+  );
+}
+
+/**
+ * Lists every built-in and user-defined operation with its flag, in flag order.
+ * @returns {[string, Flag][]} The name and flag of every operation
+ */
+export function flags(): [string, Flag][] {
+  const builtin = (<(keyof typeof Operation)[]>Object.keys(Operation))
+    .filter((name) => Number.isNaN(Number(name)))
+    .map((name): [string, Flag] => [name, Operation[name]]);
+  return [...builtin, ...Config.operations.entries()];
+}
+
+/**
+ * Lists the names of the operation flags set in a mask, in flag order, for logging.
+ * @param {Flag} mask - Operation flags combined with bitwise OR
+ * @returns {string[]} The names of the built-in and user-defined operations in the mask
+ */
+export function names(mask: Flag): string[] {
+  return flags()
+    .filter(([, flag]) => (mask & flag) !== 0)
+    .map(([name]) => name);
+}
+
 /**
  * Type guard that checks whether a value is a {@link Box} produced by an
  * inspect proxy's `box()` method. Identified by a private brand symbol so
@@ -126,76 +432,364 @@ export function isBox<T = unknown>(value: unknown): value is Box<T> {
   return G.isObject(value) && BoxBrand in value;
 }
 
+/** Key on the inspect proxy that returns its cached child proxy for a path segment */
+const descend = Symbol('descend');
+
 /**
- * Creates a proxy for inspecting pending annotations at any path.
- * @param {() => M} model - Function to get the current model state
+ * Retrieves annotations for a given path from both object and property levels.
+ * @param {M} model - The model to resolve the path against
  * @param {Registry<M>} registry - The annotation registry
  * @param {Identity<M>} identity - Identity function for lookups
- * @param {Subscribe} subscribe - Function to subscribe to registry changes
- * @param {Subscribe} unsubscribe - Function to unsubscribe from registry changes
- * @returns {Inspect<M>} Proxy with pending(), is(), draft(), and settled() methods
+ * @param {Segments} path - The path segments to the target value
+ * @returns {Annotation<M>[]} Combined array of object-level and property-level annotations
  */
-export function inspect<M extends Model>(
-  model: () => M,
+export function lookup<M extends Model>(
+  model: M,
   registry: Registry<M>,
   identity: Identity<M>,
-  subscribe: Subscribe,
-  unsubscribe: Subscribe,
-): Inspect<M> {
+  path: Segments,
+): Annotation<M>[] {
+  const key = path.at(-1);
+  const parent = get(model, path.slice(0, -1));
+  const target = G.isNullable(key) ? parent : get(parent, [key]);
+
+  const object = G.isObject(target) || G.isArray(target) ? registry.at(identity(<Snapshot<M>>target), null) : [];
+  const property = G.isNotNullable(key) && G.isObject(parent) ? registry.at(identity(<Snapshot<M>>parent), key) : [];
+
+  return [...object, ...property];
+}
+
+/**
+ * Retrieves the annotations for a path along with those of every descendant of its value.
+ * @param {M} model - The model to search
+ * @param {Registry<M>} registry - The annotation registry
+ * @param {Identity<M>} identity - Identity function for lookups
+ * @param {Segments} path - The path segments to the target value
+ * @returns {Annotation<M>[]} The annotations for the path followed by those of its descendants
+ */
+export function subtree<M extends Model>(
+  model: M,
+  registry: Registry<M>,
+  identity: Identity<M>,
+  path: Segments,
+): Annotation<M>[] {
+  const found = new Set(lookup(model, registry, identity, path));
+
+  function visit(value: unknown): void {
+    if (!G.isArray(value) && !(G.isObject(value) && plain(value))) return;
+    registry.get(identity(<Snapshot<M>>value))?.forEach((annotation) => found.add(annotation));
+    Object.values(value).forEach(visit);
+  }
+
+  visit(get(model, path));
+  return [...found];
+}
+
+/**
+ * Returns the path a patch is replayed at when rebasing. An item added at the end of a list is
+ * addressed with `-`, so that replaying it appends it to the list however long it has become
+ * rather than inserting it at its old index.
+ * @param {Patch} patch - The Immer patch being applied
+ * @param {M} snapshot - Model snapshot the patch applies to
+ * @returns {Segments} The patch's path, ending in `-` for appends
+ */
+export function append<M extends Model>(patch: Patch, snapshot: M): Segments {
+  const parent = get(snapshot, patch.path.slice(0, -1));
+  const appends = patch.op === 'add' && G.isArray(parent) && A.last(patch.path) === parent.length;
+  return appends ? [...patch.path.slice(0, -1), '-'] : patch.path;
+}
+
+/**
+ * Finds the pending annotations of other processes that a plain write overlaps. Only writes to
+ * object properties are considered; annotated writes and structural array changes never conflict.
+ * A write of the value an annotation is waiting for confirms it rather than conflicting with it,
+ * so committing the real value before pruning the optimistic process is never a conflict.
+ * @param {Patch} patch - The Immer patch being applied
+ * @param {M} snapshot - Current model snapshot
+ * @param {Process} process - The process performing the write
+ * @param {Registry<M>} registry - The annotation registry
+ * @param {Identity<M>} identity - Identity function for lookups
+ * @returns {Annotation<M>[]} The overlapping annotations
+ */
+export function conflicts<M extends Model>(
+  patch: Patch,
+  snapshot: M,
+  process: Process,
+  registry: Registry<M>,
+  identity: Identity<M>,
+): Annotation<M>[] {
+  if (patch.value instanceof Annotation || A.isEmpty(patch.path)) return [];
+  const parent = get(snapshot, patch.path.slice(0, -1));
+  if (!G.isObject(parent) || !plain(parent)) return [];
+  return lookup(snapshot, registry, identity, patch.path).filter(
+    (annotation) => annotation.process !== process && !F.equals(annotation.value, patch.value),
+  );
+}
+
+/**
+ * Creates a proxy for inspecting pending annotations at any path.
+ * @param {Context<M>} context - The state's model, registry, identity and subscriptions
+ * @returns {Inspect<M>} Proxy with pending(), is(), draft(), and settled() methods
+ */
+export function inspect<M extends Model>(context: Context<M>): Root<M> {
+  const { model, registry, identity, processes, subscribe, unsubscribe } = context;
+
   /**
    * Retrieves annotations for a given path from both object and property levels.
    * @param {string[]} path - The path segments to the target value
+   * @param {Scope} scope - Whether to include the annotations of descendants
    * @returns {Annotation<M>[]} Combined array of object-level and property-level annotations
    */
-  function annotations(path: string[]): Annotation<M>[] {
-    const key = path.at(-1);
-    const target = get(model(), path);
-    const context = path.slice(0, -1);
-    const parent = A.isNotEmpty(context) ? get(model(), context) : model();
-
-    const object =
-      G.isObject(target) || G.isArray(target)
-        ? (registry.get(identity(<Snapshot<M>>target))?.filter((annotation) => G.isNullable(annotation.property)) ?? [])
-        : [];
-
-    const property = G.isObject(parent)
-      ? (registry.get(identity(<Snapshot<M>>parent))?.filter((annotation) => annotation.property === key) ?? [])
-      : [];
-
-    return [...object, ...property];
+  function annotations(path: string[], { deep = false }: Scope = {}): Annotation<M>[] {
+    return (deep ? subtree : lookup)(model(), registry, identity, path);
+  }
+
+  /** Entities found by byId(), cached by their identity while they are part of the model */
+  const entities: Map<Id, Entity> = new Map();
+  /** Paths of every object in the model, recomputed only when the model changes */
+  let located: null | { model: M; paths: Map<Id, Segments> } = null;
+
+  /**
+   * Maps the identity of every object in the current model to its path. When the model has
+   * changed, the cached entities that are no longer part of it are evicted.
+   * @returns {Map<Id, Segments>} Map of IDs to their paths in the model
+   */
+  function paths(): Map<Id, Segments> {
+    const current = model();
+    if (located?.model === current) return located.paths;
+    const found = locate(current, identity);
+    entities.forEach((_, id) => {
+      if (!found.has(id)) entities.delete(id);
+    });
+    located = { model: current, paths: found };
+    return found;
   }
 
-  function proxy(path: string[]): Inspect<M> {
-    return <Inspect<M>>(<unknown>new Proxy(() => {}, {
+  /**
+   * Creates the inspectors for a path, relative to a base path that is resolved on every call.
+   * Child proxies are created once and cached, so repeated access to a path reuses its proxy.
+   * Once the model changes, the cached children whose key no longer exists are evicted.
+   * @param {string[]} path - The path segments beneath the base
+   * @param {() => null | Segments} base - Resolves the base path, null when it no longer exists
+   * @returns {Root<M>} The inspect proxy
+   */
+  function proxy(path: string[], base: () => null | Segments = () => []): Root<M> {
+    const children: Map<string, Root<M>> = new Map();
+    /** The model the cached children were last checked against */
+    let checked: unknown = null;
+    const child = (key: string): Root<M> => {
+      evict();
+      const cached = children.get(key);
+      if (cached) return cached;
+      const created = proxy([...path, key], base);
+      children.set(key, created);
+      return created;
+    };
+    const resolve = (): null | string[] => {
+      const root = base();
+      return root ? [...root.map(String), ...path] : null;
+    };
+    const read = (): unknown => {
+      const target = resolve();
+      return target ? get(model(), target) : undefined;
+    };
+    const evict = (): void => {
+      if (checked === model()) return;
+      checked = model();
+      const value = read();
+      const keys = G.isObject(value) || G.isArray(value) ? value : {};
+      children.forEach((_, key) => {
+        if (!Object.hasOwn(keys, key)) children.delete(key);
+      });
+    };
+    const find = (scope?: Scope): Annotation<M>[] => {
+      const target = resolve();
+      return target ? annotations(target, scope) : [];
+    };
+    const progress = (): null | number =>
+      find()
+        .map((annotation) => processes.get(<Process>annotation.process)?.progress ?? null)
+        .find(G.isNotNullable) ?? null;
+    const operations = (scope?: Scope): number =>
+      find(scope).reduce((mask: number, annotation) => mask | annotation.operation, 0);
+
+    const methods: Record<string, unknown> = {
+      pending: (scope?: Scope) => !A.isEmpty(find(scope)),
+      remaining: (scope?: Scope) => A.length(find(scope)),
+      at: (target: string | Segments) =>
+        segments(target).reduce<Root<M>>(
+          (current, key) =>
+            (<Record<typeof descend, (key: string) => Root<M>>>(<unknown>current))[descend](String(key)),
+          self,
+        ),
+      box: () => ({ value: read(), inspect: self, [BoxBrand]: <const>true }),
+      is: (operation: Flag, scope?: Scope) =>
+        find(scope).some((annotation) => (annotation.operation & operation) !== 0),
+      isAll: (mask: Flag, scope?: Scope) => (operations(scope) & mask) === mask,
+      isOnly: (mask: Flag, scope?: Scope) => {
+        const pending = operations(scope);
+        return pending !== 0 && (pending & ~mask) === 0;
+      },
+      operations: (scope?: Scope) => <Flag>operations(scope),
+      draft: () => A.head(find())?.value ?? read(),
+      settled: ({ operation, process, ...options }: Criteria = {}) => {
+        const matching = () =>
+          find().filter(
+            (annotation) =>
+              (G.isNullable(operation) || (annotation.operation & operation) !== 0) &&
+              (G.isNullable(process) || annotation.process === process),
+          );
+        const involved = (failed: Process) => matching().some((annotation) => annotation.process === failed);
+        return until(() => A.isEmpty(matching()), context, options, involved).then(read);
+      },
+      progress,
+      annotations: (): Descriptor[] => find().map((annotation) => descriptor(annotation, processes)),
+      observe: (observer: Observer) => {
+        let value = read();
+        let current = find();
+        let fraction = progress();
+        const subscriber = () => {
+          const next = read();
+          const latest = find();
+          const reported = progress();
+          const same = A.length(latest) === A.length(current) && latest.every((item, index) => item === current[index]);
+          if (next === value && same && reported === fraction) return;
+          const previous = value;
+          value = next;
+          current = latest;
+          fraction = reported;
+          observer(next, previous);
+        };
+        subscribe(subscriber);
+        return () => unsubscribe(subscriber);
+      },
+    };
+    if (A.isEmpty(path))
+      methods.byId = (id: Id): Entity => {
+        paths();
+        const cached = entities.get(id);
+        if (cached) return cached;
+        const where = () => paths().get(id) ?? null;
+        const entity = {
+          get path() {
+            return where();
+          },
+          inspect: proxy([], where),
+        };
+        entities.set(id, entity);
+        return entity;
+      };
+
+    const self = <Root<M>>(<unknown>new Proxy(() => {}, {
       get(_, property) {
-        if (property === 'pending') return () => !A.isEmpty(annotations(path));
-        if (property === 'remaining') return () => A.length(annotations(path));
-        if (property === 'box')
-          return () => ({ value: get(model(), path), inspect: proxy(path), [BoxBrand]: <const>true });
-        if (property === 'is')
-          return (operation: Operation) =>
-            annotations(path).some((annotation) => (annotation.operation & operation) !== 0);
-        if (property === 'draft') return () => A.head(annotations(path))?.value ?? get(model(), path);
-        if (property === 'settled')
-          return () =>
-            new Promise((resolve) => {
-              if (A.isEmpty(annotations(path))) return resolve(get(model(), path));
-              const check = () => {
-                if (A.isEmpty(annotations(path))) {
-                  unsubscribe(check);
-                  resolve(get(model(), path));
-                }
-              };
-              subscribe(check);
-            });
-        return proxy([...path, String(property)]);
+        if (property === descend) return child;
+        if (typeof property === 'string' && Object.hasOwn(methods, property)) return methods[property];
+        return child(String(property));
       },
     }));
+    return self;
   }
 
   return proxy([]);
 }
 
+/**
+ * Describes an annotation along with the label of the process that owns it, and the process's
+ * metadata overridden by the annotation's own.
+ * @param {Annotation<M>} annotation - The annotation to describe
+ * @param {Map<Process, Details>} processes - The live processes
+ * @returns {Descriptor} The annotation's record
+ */
+export function descriptor<M extends Model>(annotation: Annotation<M>, processes: Map<Process, Details>): Descriptor {
+  const details = processes.get(<Process>annotation.process);
+  return {
+    operation: annotation.operation,
+    value: annotation.value,
+    process: <Process>annotation.process,
+    label: details?.label ?? null,
+    meta: { ...details?.meta, ...annotation.meta },
+    level: G.isNullable(annotation.property) ? Level.Object : Level.Property,
+  };
+}
+
+/**
+ * Creates the error used to reject waits and throw from mutations when a signal is aborted.
+ * @returns {DOMException} An AbortError
+ */
+export function abort(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/**
+ * Creates the error used to reject waits that run out of time and processes that expire.
+ * @returns {DOMException} A TimeoutError
+ */
+export function elapsed(): DOMException {
+  return new DOMException('The operation timed out.', 'TimeoutError');
+}
+
+/**
+ * Waits until a predicate holds, re-checking it on every registry change.
+ * @param {() => boolean} predicate - Condition to wait for
+ * @param {Context<M>} context - The state's subscriptions, lifecycle and failure listeners
+ * @param {Settle} options - Wait options
+ * @param {(process: Process) => boolean} [involved] - Whether a failing process is one being waited for
+ * @returns {Promise<void>} Resolves once the predicate holds, rejects with an AbortError when the signal
+ * aborts, a TimeoutError when the timeout elapses, the failure's reason when rejecting on failure,
+ * or with the lifecycle's reason when the state is reset or disposed
+ */
+export function until<M extends Model>(
+  predicate: () => boolean,
+  { subscribe, unsubscribe, lifecycle, failures }: Context<M>,
+  { signal, timeout, reject: strict = false }: Settle,
+  involved: (process: Process) => boolean = () => true,
+): Promise<void> {
+  const ended = lifecycle();
+
+  return new Promise((resolve, reject) => {
+    if (ended.aborted) return reject(ended.reason);
+    if (signal?.aborted) return reject(abort());
+    if (predicate()) return resolve();
+
+    const timer = G.isNotNullable(timeout)
+      ? setTimeout(() => {
+          release();
+          reject(elapsed());
+        }, timeout)
+      : null;
+    const release = () => {
+      unsubscribe(check);
+      signal?.removeEventListener('abort', cancel);
+      ended.removeEventListener('abort', end);
+      failures.delete(fail);
+      if (timer) clearTimeout(timer);
+    };
+    const fail = (process: Process, reason: unknown) => {
+      if (!involved(process)) return;
+      release();
+      reject(reason);
+    };
+    const check = () => {
+      if (!predicate()) return;
+      release();
+      resolve();
+    };
+    const cancel = () => {
+      release();
+      reject(abort());
+    };
+    const end = () => {
+      release();
+      reject(ended.reason);
+    };
+
+    subscribe(check);
+    if (strict) failures.add(fail);
+    signal?.addEventListener('abort', cancel, { once: true });
+    ended.addEventListener('abort', end, { once: true });
+  });
+}
+
 /**
  * Reconciles patch values by unwrapping annotations and registering them.
  * @param {Mode} mode - Mode.Produce preserves originals, Mode.Hydrate uses annotation values
@@ -214,7 +808,7 @@ export function reconcile<M extends Model>(
   registry: Registry<M>,
   identity: Identity<M>,
 ): M {
-  function discover(model: M, path: Path = patch.path): M {
+  function discover(model: M, path: Segments = patch.path): M {
     if (model instanceof Annotation) {
       const present = <M | undefined>get(snapshot, path.join('.'));
 
@@ -277,6 +871,38 @@ export function reconcile<M extends Model>(
   return discover(patch.value);
 }
 
+/**
+ * Walks the model and maps the identity of every object and array to its path.
+ * The first path wins when the same identity occurs more than once.
+ * @param {M} model - The model to walk
+ * @param {Identity<M>} identity - Identity function for ID generation
+ * @returns {Map<Id, Segments>} Map of IDs to their paths in the model
+ */
+export function locate<M extends Model>(model: M, identity: Identity<M>): Map<Id, Segments> {
+  const paths: Map<Id, Segments> = new Map();
+
+  function walk(value: unknown, path: Segments): void {
+    if (!G.isArray(value) && !(G.isObject(value) && plain(value))) return;
+    const id = identity(<Snapshot<M>>value);
+    if (!paths.has(id)) paths.set(id, path);
+    if (G.isArray(value)) value.forEach((item, index) => walk(item, path.concat(index)));
+    else Object.entries(value).forEach(([key, item]) => walk(item, path.concat(key)));
+  }
+
+  walk(model, []);
+  return paths;
+}
+
+/**
+ * Checks whether any annotation in the registry belongs to the given process.
+ * @param {Registry<M>} registry - The annotation registry
+ * @param {Process} process - The process symbol
+ * @returns {boolean} True if the process has pending annotations
+ */
+export function annotated<M extends Model>(registry: Registry<M>, process: Process): boolean {
+  return [...registry.values()].some((annotations) => annotations.some((annotation) => annotation.process === process));
+}
+
 /**
  * Registers an annotation in the registry.
  * @param {M} model - The model value to register against